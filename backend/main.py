@@ -1,6 +1,8 @@
-from fastapi import FastAPI, HTTPException
+from fastapi import FastAPI, Header, HTTPException
 from fastapi.middleware.cors import CORSMiddleware
 from pydantic import BaseModel
+from datetime import datetime, timezone
+import hashlib
 import secrets
 import requests
 
@@ -18,24 +20,51 @@ app.add_middleware(
 # --- In-memory metadata (DEV ONLY) ---
 forms: dict[str, dict] = {}
 submissions: dict[str, list[dict]] = {}
+attachments: dict[str, set[str]] = {}
+threads: dict[str, dict[str, dict]] = {}
+cases: dict[str, dict[str, dict]] = {}
 
 # --- Walrus Publisher / Aggregator (Testnet) ---
 PUBLISHER_BASE = "https://publisher.walrus-testnet.walrus.space"
 AGGREGATOR_BASE = "https://aggregator.walrus-testnet.walrus.space"
 
+# Submission listing page sizes
+DEFAULT_PAGE_SIZE = 25
+MAX_PAGE_SIZE = 100
+
+# Encrypted attachments arrive base64 encoded, so this is ~1.33x the file size
+MAX_ATTACHMENT_CHARS = 40 * 1024 * 1024
+
 # --- Models ---
+class Recipient(BaseModel):
+    id: str  # key fingerprint, computed in the browser
+    label: str
+    publicKey: str
+
 class CreateFormRequest(BaseModel):
     publicKey: str
     schema: dict
+    recipients: list[Recipient] = []
 
 class CreateFormResponse(BaseModel):
     formId: str
     adminLink: str
     submitLink: str
+    adminToken: str
 
 class SubmitRequest(BaseModel):
     encrypted: str
 
+class CreateThreadRequest(BaseModel):
+    threadId: str
+    replyToken: str
+    publicKey: str
+    reporterKey: str  # reporter private key, wrapped under the receipt code
+
+class SubmitReportRequest(BaseModel):
+    encrypted: str
+    thread: CreateThreadRequest | None = None  # follow-up thread to open with the report
+
 
 # --- Walrus Upload ---
 def walrus_upload(encrypted_str: str) -> str:
@@ -94,6 +123,47 @@ def walrus_fetch(blob_id: str) -> str:
     return resp.content.decode("utf-8")
 
 
+# --- Admin token ---
+def hash_token(token: str) -> str:
+    return hashlib.sha256(token.encode("utf-8")).hexdigest()
+
+
+def require_admin(form_id: str, token: str | None):
+    """
+    Recipient changes decide who can read future reports and case records
+    steer investigations, so both need the admin token handed out at form
+    creation.
+    """
+    if form_id not in forms:
+        raise HTTPException(status_code=404, detail="form not found")
+    expected = forms[form_id]["adminTokenHash"]
+    if not token or not secrets.compare_digest(hash_token(token), expected):
+        raise HTTPException(status_code=403, detail="invalid admin token")
+
+
+def is_split_key(schema: dict) -> bool:
+    """
+    k-of-n custody forms are encrypted to one key whose shares are held by
+    custodians. Any further recipient could read reports alone, so their
+    recipient list is fixed at creation and no token can change it.
+    """
+    return bool(schema.get("threshold"))
+
+
+def require_recipient_changes(form_id: str, token: str | None):
+    require_admin(form_id, token)
+    if is_split_key(forms[form_id]["schema"]):
+        raise HTTPException(status_code=403, detail="recipients of a split-key form cannot be changed")
+
+
+def public_form(form: dict) -> dict:
+    return {
+        "publicKey": form["publicKey"],
+        "schema": form["schema"],
+        "recipients": form["recipients"],
+    }
+
+
 # --- Routes ---
 
 @app.get("/health")
@@ -104,47 +174,202 @@ def health():
 @app.post("/create-form", response_model=CreateFormResponse)
 def create_form(data: CreateFormRequest):
     form_id = secrets.token_hex(16)
+    admin_token = secrets.token_urlsafe(24)
+
+    # Older clients only send a single publicKey
+    recipients = [r.model_dump() for r in data.recipients]
+    if not recipients:
+        recipients = [{"id": "", "label": "Form owner", "publicKey": data.publicKey}]
+    if is_split_key(data.schema) and len(recipients) != 1:
+        raise HTTPException(status_code=400, detail="a split-key form has exactly one recipient")
 
     forms[form_id] = {
         "publicKey": data.publicKey,
         "schema": data.schema,
+        "recipients": recipients,
+        "adminTokenHash": hash_token(admin_token),
     }
 
     submissions[form_id] = []
+    attachments[form_id] = set()
+    threads[form_id] = {}
+    cases[form_id] = {}
 
     return CreateFormResponse(
         formId=form_id,
         adminLink=f"/admin/{form_id}",
         submitLink=f"/f/{form_id}",
+        adminToken=admin_token,
     )
 
 
 @app.post("/submit/{formId}")
-def submit(formId: str, data: SubmitRequest):
+def submit(formId: str, data: SubmitReportRequest):
     if formId not in forms:
         raise HTTPException(status_code=404, detail="form not found")
+    if data.thread and data.thread.threadId in threads[formId]:
+        raise HTTPException(status_code=409, detail="thread already exists")
 
     # 1) upload encrypted payload to Walrus
     blob_id = walrus_upload(data.encrypted)
 
-    # 2) only store the blobId in our metadata
-    submissions[formId].append({"blobId": blob_id})
+    # 2) a follow-up thread only exists alongside the report it belongs to
+    if data.thread:
+        threads[formId][data.thread.threadId] = {
+            "blobId": blob_id,
+            "publicKey": data.thread.publicKey,
+            "keyBlobId": walrus_upload(data.thread.reporterKey),
+            "replyTokenHash": hash_token(data.thread.replyToken),
+            "messages": [],
+        }
+
+    # 3) only store the blobId in our metadata
+    stored_at = datetime.now(timezone.utc).isoformat()
+    seq = len(submissions[formId]) + 1
+    submissions[formId].append({"seq": seq, "blobId": blob_id, "storedAt": stored_at})
+
+    return {"status": "stored", "blobId": blob_id, "storedAt": stored_at, "seq": seq}
+
+
+@app.post("/upload/{formId}")
+def upload_attachment(formId: str, data: SubmitRequest):
+    if formId not in forms:
+        raise HTTPException(status_code=404, detail="form not found")
+
+    if len(data.encrypted) > MAX_ATTACHMENT_CHARS:
+        raise HTTPException(status_code=413, detail="attachment too large")
+
+    blob_id = walrus_upload(data.encrypted)
+    attachments[formId].add(blob_id)
 
     return {"status": "stored", "blobId": blob_id}
 
 
+@app.get("/attachments/{formId}")
+def list_attachments(formId: str):
+    if formId not in attachments:
+        raise HTTPException(status_code=404, detail="form not found")
+
+    return sorted(attachments[formId])
+
+
+@app.get("/attachments/{formId}/{blobId}")
+def get_attachment(formId: str, blobId: str):
+    if blobId not in attachments.get(formId, set()):
+        raise HTTPException(status_code=404, detail="attachment not found")
+
+    return {"blobId": blobId, "encrypted": walrus_fetch(blobId)}
+
+
+# --- Follow-up threads ---
+#
+# A thread is keyed by a hash of the reporter's receipt code and is opened by
+# the submission it belongs to, whose blob id it keeps. Posts carrying
+# the matching reply token are filed as the reporter's, posts carrying the
+# form's admin token as an admin reply; anything else is rejected. Only
+# ciphertext is stored, all of it on Walrus.
+
+def get_thread(form_id: str, thread_id: str) -> dict:
+    thread = threads.get(form_id, {}).get(thread_id)
+    if thread is None:
+        raise HTTPException(status_code=404, detail="thread not found")
+    return thread
+
+
+@app.get("/threads/{formId}/{threadId}")
+def read_thread(formId: str, threadId: str):
+    thread = get_thread(formId, threadId)
+
+    messages = []
+    for m in thread["messages"]:
+        messages.append({**m, "encrypted": walrus_fetch(m["blobId"])})
+
+    return {
+        "threadId": threadId,
+        "blobId": thread["blobId"],
+        "publicKey": thread["publicKey"],
+        "reporterKey": walrus_fetch(thread["keyBlobId"]),
+        "messages": messages,
+    }
+
+
+@app.post("/threads/{formId}/{threadId}/messages")
+def post_message(
+    formId: str,
+    threadId: str,
+    data: SubmitRequest,
+    x_reply_token: str | None = Header(default=None),
+    x_admin_token: str | None = Header(default=None),
+):
+    thread = get_thread(formId, threadId)
+
+    is_reporter = bool(x_reply_token) and secrets.compare_digest(
+        hash_token(x_reply_token), thread["replyTokenHash"]
+    )
+    if not is_reporter:
+        require_admin(formId, x_admin_token)
+
+    blob_id = walrus_upload(data.encrypted)
+    thread["messages"].append({
+        "blobId": blob_id,
+        "from": "reporter" if is_reporter else "admin",
+        "postedAt": datetime.now(timezone.utc).isoformat(),
+    })
+
+    return {"status": "stored", "blobId": blob_id}
+
+
+# --- Case metadata ---
+#
+# Status, assignee, tags and notes per report, encrypted in the browser for
+# the form recipients. Small and frequently rewritten, so it is kept here
+# rather than as a new Walrus blob per edit.
+
+@app.get("/cases/{formId}")
+def list_cases(formId: str):
+    if formId not in cases:
+        raise HTTPException(status_code=404, detail="form not found")
+
+    return [{"blobId": blob_id, **record} for blob_id, record in cases[formId].items()]
+
+
+@app.put("/cases/{formId}/{blobId}")
+def save_case(formId: str, blobId: str, data: SubmitRequest, x_admin_token: str | None = Header(default=None)):
+    require_admin(formId, x_admin_token)
+    if not any(item["blobId"] == blobId for item in submissions[formId]):
+        raise HTTPException(status_code=404, detail="report not found")
+
+    record = {"encrypted": data.encrypted, "updatedAt": datetime.now(timezone.utc).isoformat()}
+    cases[formId][blobId] = record
+
+    return {"status": "stored", "blobId": blobId, **record}
+
+
 @app.get("/submissions/{formId}")
-def list_submissions(formId: str):
+def list_submissions(formId: str, after: int = 0, limit: int = DEFAULT_PAGE_SIZE):
+    """
+    Page through a form's submissions in arrival order. `after` is the seq of
+    the last item the client already has, so an inbox that caches ciphertext
+    only ever downloads blobs it has not seen.
+    """
     if formId not in submissions:
         raise HTTPException(status_code=404, detail="form not found")
 
-    result = []
-    for item in submissions[formId]:
-        blob_id = item["blobId"]
-        encrypted = walrus_fetch(blob_id)
-        result.append({"blobId": blob_id, "encrypted": encrypted})
+    limit = max(1, min(limit, MAX_PAGE_SIZE))
+    pending = [item for item in submissions[formId] if item["seq"] > after]
+    page = pending[:limit]
 
-    return result
+    items = []
+    for item in page:
+        encrypted = walrus_fetch(item["blobId"])
+        items.append({**item, "encrypted": encrypted})
+
+    return {
+        "items": items,
+        "nextCursor": page[-1]["seq"] if page else after,
+        "hasMore": len(pending) > limit,
+        "total": len(submissions[formId]),
+    }
 
 
 @app.get("/form/{formId}")
@@ -152,4 +377,33 @@ def get_form(formId: str):
     if formId not in forms:
         raise HTTPException(status_code=404, detail="form not found")
 
-    return forms[formId]
+    return public_form(forms[formId])
+
+
+@app.post("/form/{formId}/recipients")
+def add_recipient(formId: str, data: Recipient, x_admin_token: str | None = Header(default=None)):
+    require_recipient_changes(formId, x_admin_token)
+
+    form = forms[formId]
+    form["recipients"] = [r for r in form["recipients"] if r["id"] != data.id]
+    form["recipients"].append(data.model_dump())
+
+    return public_form(form)
+
+
+@app.delete("/form/{formId}/recipients/{recipientId}")
+def remove_recipient(formId: str, recipientId: str, x_admin_token: str | None = Header(default=None)):
+    require_recipient_changes(formId, x_admin_token)
+
+    form = forms[formId]
+    remaining = [r for r in form["recipients"] if r["id"] != recipientId]
+    if len(remaining) == len(form["recipients"]):
+        raise HTTPException(status_code=404, detail="recipient not found")
+    if not remaining:
+        raise HTTPException(status_code=400, detail="a form needs at least one recipient")
+
+    form["recipients"] = remaining
+    # Keep the single-key field pointing at a current recipient for older clients
+    form["publicKey"] = remaining[0]["publicKey"]
+
+    return public_form(form)
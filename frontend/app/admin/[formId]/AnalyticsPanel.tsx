@@ -0,0 +1,143 @@
+"use client";
+
+import { useState } from "react";
+import { Bar, FieldStats, ReportForStats, chartableFields, fieldStats, volumeOverTime } from "@/lib/analytics";
+import { FormSchema, isDateType } from "@/lib/schema";
+
+type Props = {
+  schema: FormSchema;
+  reports: ReportForStats[];
+};
+
+const BUCKET_LABEL = { day: "per day", week: "per week", month: "per month" };
+
+function HorizontalBars({ bars, total }: { bars: Bar[]; total: number }) {
+  const top = Math.max(1, ...bars.map((b) => b.count));
+  return (
+    <div className="space-y-1">
+      {bars.map((bar) => (
+        <div key={bar.label} className="grid grid-cols-[minmax(0,10rem)_1fr_4.5rem] items-center gap-2 text-xs">
+          <span className="truncate text-gray-300" title={bar.label}>
+            {bar.label}
+          </span>
+          <div className="h-3 rounded bg-gray-800">
+            <div className="h-3 rounded bg-cyan-500" style={{ width: `${(bar.count / top) * 100}%` }} />
+          </div>
+          <span className="text-right text-gray-400">
+            {bar.count}
+            {total > 0 && ` · ${Math.round((bar.count / total) * 100)}%`}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function Columns({ bars }: { bars: Bar[] }) {
+  const top = Math.max(1, ...bars.map((b) => b.count));
+  return (
+    <div>
+      <div className="flex h-32 items-end gap-1 border-b border-gray-700">
+        {bars.map((bar, i) => (
+          <div
+            key={i}
+            title={`${bar.label}: ${bar.count}`}
+            className="flex-1 rounded-t bg-cyan-500"
+            style={{ height: `${(bar.count / top) * 100}%`, minHeight: bar.count ? 2 : 0 }}
+          />
+        ))}
+      </div>
+      <div className="mt-1 flex gap-1 text-[10px] text-gray-500">
+        {bars.map((bar, i) => (
+          <span key={i} className="flex-1 truncate text-center" title={bar.label}>
+            {bars.length <= 12 || i % Math.ceil(bars.length / 12) === 0 ? bar.label : ""}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function StatsCard({ stats, reportCount }: { stats: FieldStats; reportCount: number }) {
+  return (
+    <div className="border border-gray-800 rounded p-3 space-y-2">
+      <div className="flex items-baseline justify-between gap-3">
+        <p className="text-sm font-medium">{stats.field.label}</p>
+        <p className="shrink-0 text-xs text-gray-500">
+          {stats.answered} of {reportCount} answered
+        </p>
+      </div>
+      {stats.kind === "choices" ? (
+        <HorizontalBars bars={stats.bars} total={stats.answered} />
+      ) : stats.answered === 0 ? (
+        <p className="text-xs text-gray-500">No answers yet</p>
+      ) : (
+        <>
+          <p className="text-xs text-gray-400">
+            Average <span className="text-gray-100">{stats.mean?.toFixed(1)}</span> · min {stats.min} · max {stats.max}
+          </p>
+          <Columns bars={stats.bars} />
+        </>
+      )}
+    </div>
+  );
+}
+
+// Charts over the reports currently in view, chosen per question type from the schema
+export default function AnalyticsPanel({ schema, reports }: Props) {
+  const dateFields = schema.fields.filter((f) => isDateType(f.type));
+  // "" uses the time the report was received
+  const [timeFieldId, setTimeFieldId] = useState("");
+  const timeField = dateFields.find((f) => f.id === timeFieldId);
+
+  const volume = volumeOverTime(reports, timeField);
+  const stats = chartableFields(schema).map((f) => fieldStats(f, reports));
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-400">
+        Computed in this browser from the {reports.length} decrypted {reports.length === 1 ? "report" : "reports"}{" "}
+        matching the current filters.
+      </p>
+
+      <div className="border border-gray-800 rounded p-3 space-y-2">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <p className="text-sm font-medium">Reports {BUCKET_LABEL[volume.bucket]}</p>
+          {dateFields.length > 0 && (
+            <select
+              value={timeFieldId}
+              onChange={(e) => setTimeFieldId(e.target.value)}
+              className="bg-black border border-gray-700 rounded px-2 py-1 text-xs"
+            >
+              <option value="">By time received</option>
+              {dateFields.map((f) => (
+                <option key={f.id} value={f.id}>
+                  By {f.label}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+        {volume.bars.length ? <Columns bars={volume.bars} /> : <p className="text-xs text-gray-500">No dates yet</p>}
+        {volume.undated > 0 && (
+          <p className="text-xs text-gray-500">
+            {volume.undated} {volume.undated === 1 ? "report has" : "reports have"} no date and{" "}
+            {volume.undated === 1 ? "is" : "are"} not shown
+          </p>
+        )}
+        {volume.outOfRange > 0 && (
+          <p className="text-xs text-gray-500">
+            {volume.outOfRange} {volume.outOfRange === 1 ? "report is" : "reports are"} dated far outside the rest and
+            not shown
+          </p>
+        )}
+      </div>
+
+      <div className="grid gap-3 md:grid-cols-2">
+        {stats.map((s) => (
+          <StatsCard key={s.field.id} stats={s} reportCount={reports.length} />
+        ))}
+      </div>
+    </div>
+  );
+}
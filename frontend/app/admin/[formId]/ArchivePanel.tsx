@@ -0,0 +1,219 @@
+"use client";
+
+import { useState } from "react";
+import {
+  ARCHIVE_TYPE,
+  ArchiveBlobs,
+  EncryptedAttachment,
+  FormArchive,
+  archiveFileName,
+  createArchive,
+  readArchive,
+} from "@/lib/archive";
+import { StoredCase } from "@/lib/cases";
+import { downloadFile } from "@/lib/download";
+import { INBOX_PAGE_SIZE, Submission, SubmissionPage } from "@/lib/inbox";
+import { recipientsFromForm } from "@/lib/keys";
+
+type Props = {
+  formId: string;
+  archive: FormArchive | null;
+  offline: boolean;
+  aggregator: string;
+  onAggregatorChange: (aggregator: string) => void;
+  onOpen: (archive: FormArchive) => void;
+  onClose: () => void;
+};
+
+async function getJson<T>(path: string, what: string): Promise<T> {
+  const res = await fetch(`http://localhost:8000${path}`);
+  if (!res.ok) throw new Error(`Failed to fetch ${what}`);
+  return (await res.json()) as T;
+}
+
+// Exports every ciphertext of the form into a verifiable archive, and opens
+// such an archive in place of the backend. Neither step needs the private key.
+// In offline mode only opening is available and blobs come from the aggregator.
+export default function ArchivePanel({
+  formId,
+  archive,
+  offline,
+  aggregator,
+  onAggregatorChange,
+  onOpen,
+  onClose,
+}: Props) {
+  const [progress, setProgress] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function exportArchive(blobs: ArchiveBlobs) {
+    try {
+      setProgress("Fetching form...");
+      const form = await getJson<{ schema: unknown; publicKey: string }>(`/form/${formId}`, "the form");
+
+      const submissions: Submission[] = [];
+      for (let cursor = 0, hasMore = true; hasMore;) {
+        const page = await getJson<SubmissionPage>(
+          `/submissions/${formId}?after=${cursor}&limit=${INBOX_PAGE_SIZE}`,
+          "submissions"
+        );
+        submissions.push(...page.items);
+        setProgress(`Fetched ${submissions.length} of ${page.total} reports...`);
+        cursor = page.nextCursor;
+        hasMore = page.hasMore;
+      }
+
+      const cases = await getJson<StoredCase[]>(`/cases/${formId}`, "case data");
+      const attachmentIds = await getJson<string[]>(`/attachments/${formId}`, "the attachment list");
+      const attachments: EncryptedAttachment[] = [];
+      for (const blobId of attachmentIds) {
+        setProgress(`Fetching attachment ${attachments.length + 1} of ${attachmentIds.length}...`);
+        attachments.push(await getJson<EncryptedAttachment>(`/attachments/${formId}/${blobId}`, "an attachment"));
+      }
+
+      setProgress("Building archive...");
+      const zip = await createArchive(
+        {
+          formId,
+          schema: form.schema,
+          recipients: await recipientsFromForm(form),
+          submissions,
+          cases: cases.map(({ blobId, encrypted }) => ({ blobId, encrypted })),
+          attachments: attachments.map(({ blobId, encrypted }) => ({ blobId, encrypted })),
+        },
+        blobs
+      );
+      downloadFile(archiveFileName(formId, blobs), zip, ARCHIVE_TYPE);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not export the archive");
+    } finally {
+      setProgress(null);
+    }
+  }
+
+  async function openArchive(file: File | undefined) {
+    if (!file) return;
+    try {
+      setProgress("Checking archive...");
+      const opened = await readArchive(new Uint8Array(await file.arrayBuffer()), aggregator);
+      if (opened.manifest.formId !== formId) {
+        throw new Error(`This archive belongs to form ${opened.manifest.formId}`);
+      }
+      onOpen(opened);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not read the archive");
+    } finally {
+      setProgress(null);
+    }
+  }
+
+  // Full reload so nothing loaded from the backend carries over
+  function switchMode() {
+    window.location.assign(offline ? `/admin/${formId}` : `/admin/${formId}?offline`);
+  }
+
+  const modeButton = (
+    <button className="text-xs text-cyan-400 hover:text-cyan-300" onClick={switchMode}>
+      {offline ? "Go back online" : "Work offline"}
+    </button>
+  );
+
+  if (archive) {
+    return (
+      <div className="mb-6 border border-amber-700 rounded p-3 text-sm">
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="text-amber-300">Reading from archive</span>
+          <span className="text-xs text-gray-400">
+            Exported {new Date(archive.manifest.exportedAt).toLocaleString()} · {archive.submissions.length}{" "}
+            {archive.submissions.length === 1 ? "report" : "reports"}
+            {archive.manifest.blobs === "walrus" && " fetched from the aggregator"} · all hashes verified
+          </span>
+          <div className="ml-auto flex items-center gap-3">
+            {offline && modeButton}
+            <button className="px-3 py-1 border border-gray-600 rounded hover:bg-gray-800 text-xs" onClick={onClose}>
+              Close archive
+            </button>
+          </div>
+        </div>
+        {archive.unavailable.length > 0 && (
+          <details className="mt-2 text-xs text-yellow-400">
+            <summary className="cursor-pointer">
+              {archive.unavailable.length} {archive.unavailable.length === 1 ? "report is" : "reports are"} unavailable
+              and left out, most likely expired on Walrus
+            </summary>
+            <ul className="mt-1 space-y-0.5 text-gray-400">
+              {archive.unavailable.map((r) => (
+                <li key={r.blobId}>
+                  #{r.seq}: {r.reason}
+                </li>
+              ))}
+            </ul>
+          </details>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <details className="mb-6 border border-gray-700 rounded p-4 text-sm" open={offline}>
+      <summary className="cursor-pointer font-medium">{offline ? "Offline mode" : "Archive"}</summary>
+
+      <div className="mt-3 space-y-3">
+        {offline ? (
+          <p className="text-xs text-gray-400">
+            This page is not talking to the backend. Open an archive, or a blob list whose reports are fetched straight
+            from the Walrus aggregator below. Case records and recipients are read-only.
+          </p>
+        ) : (
+          <p className="text-xs text-gray-400">
+            Download every report, case record and attachment of this form, still encrypted, with the schema, recipient
+            public keys and a manifest of SHA-256 hashes. The archive can be opened here later without the backend or
+            Walrus; reading it still needs the private key. A blob list holds the same manifest but leaves the reports
+            and attachments on Walrus.
+          </p>
+        )}
+
+        <div className="flex flex-wrap items-center gap-3">
+          {!offline &&
+            (["included", "walrus"] as const).map((blobs) => (
+              <button
+                key={blobs}
+                className="px-3 py-2 border border-gray-600 rounded hover:bg-gray-800 text-sm disabled:opacity-40"
+                onClick={() => exportArchive(blobs)}
+                disabled={progress !== null}
+              >
+                {blobs === "included" ? "Export archive" : "Export blob list"}
+              </button>
+            ))}
+          <label className="px-3 py-2 border border-gray-600 rounded hover:bg-gray-800 text-sm cursor-pointer">
+            Open archive
+            <input
+              type="file"
+              accept="application/zip,.zip"
+              className="hidden"
+              onChange={(e) => {
+                openArchive(e.target.files?.[0]);
+                e.target.value = "";
+              }}
+            />
+          </label>
+          {progress && <span className="text-xs text-gray-400">{progress}</span>}
+          <span className="ml-auto">{modeButton}</span>
+        </div>
+
+        <label className="block text-xs text-gray-400">
+          Walrus aggregator for blob lists
+          <input
+            value={aggregator}
+            onChange={(e) => onAggregatorChange(e.target.value)}
+            className="mt-1 w-full bg-black border border-gray-700 rounded px-2 py-1 font-mono text-gray-100"
+          />
+        </label>
+
+        {error && <p className="text-red-500 text-xs">{error}</p>}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,97 @@
+import { formatBytes, isAttachmentRef } from "@/lib/attachments";
+import { CaseRecord } from "@/lib/cases";
+import { FOLLOWUP_FIELD } from "@/lib/followup";
+import { cellValue } from "@/lib/exports";
+import { FormSchema, formatAnswer } from "@/lib/schema";
+
+type Props = {
+  formId: string;
+  schema: FormSchema | null;
+  blobId: string;
+  storedAt?: string;
+  data: Record<string, unknown>;
+  caseRecord: CaseRecord;
+};
+
+function Row({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="grid grid-cols-[11rem_1fr] gap-3 border-b border-gray-300 py-1.5 break-inside-avoid">
+      <dt className="font-semibold">{label}</dt>
+      <dd className="whitespace-pre-wrap break-words">{children}</dd>
+    </div>
+  );
+}
+
+// Printable case file for one decrypted report; saved as PDF through the browser print dialog
+export default function CaseFile({ formId, schema, blobId, storedAt, data, caseRecord }: Props) {
+  const known = new Set(schema?.fields.map((f) => f.id));
+  const extra = Object.keys(data).filter((key) => !known.has(key) && key !== FOLLOWUP_FIELD);
+
+  return (
+    <article className="bg-white p-8 text-sm text-black">
+      <header className="mb-6 border-b-2 border-black pb-3">
+        <p className="text-xs uppercase tracking-wide">Confidential case file</p>
+        <h1 className="text-2xl font-bold">{schema?.title || "Anonymous report"}</h1>
+      </header>
+
+      <h2 className="mb-1 font-semibold">Record</h2>
+      <dl className="mb-6">
+        <Row label="Form ID">
+          <span className="font-mono">{formId}</span>
+        </Row>
+        <Row label="Blob ID">
+          <span className="font-mono break-all">{blobId}</span>
+        </Row>
+        <Row label="Received">{storedAt ? new Date(storedAt).toLocaleString() : "Unknown"}</Row>
+        <Row label="Printed">{new Date().toLocaleString()}</Row>
+        <Row label="Status">{caseRecord.status}</Row>
+        <Row label="Assignee">{caseRecord.assignee || "Unassigned"}</Row>
+        <Row label="Tags">{caseRecord.tags.length ? caseRecord.tags.map((t) => `#${t}`).join(" ") : "None"}</Row>
+      </dl>
+
+      <h2 className="mb-1 font-semibold">Answers</h2>
+      <dl className="mb-6">
+        {schema?.fields.map((field) => {
+          const v = data[field.id];
+          // conditional question the reporter was never shown
+          if (field.showIf?.length && !(field.id in data)) return null;
+          if (field.type === "file") {
+            const refs = Array.isArray(v) ? v.filter(isAttachmentRef) : [];
+            return (
+              <Row key={field.id} label={field.label}>
+                {refs.length
+                  ? refs
+                      .map((ref) => `${ref.name} (${ref.type}, ${formatBytes(ref.size)}), blob ${ref.blobId}`)
+                      .join("\n")
+                  : "Not provided"}
+              </Row>
+            );
+          }
+          return (
+            <Row key={field.id} label={field.label}>
+              {formatAnswer(field, v)}
+            </Row>
+          );
+        })}
+        {extra.map((key) => (
+          <Row key={key} label={key}>
+            {cellValue(undefined, data[key]) ?? ""}
+          </Row>
+        ))}
+      </dl>
+
+      {caseRecord.notes.length > 0 && (
+        <>
+          <h2 className="mb-1 font-semibold">Internal notes</h2>
+          <dl>
+            {caseRecord.notes.map((note, i) => (
+              <Row key={i} label={`${new Date(note.at).toLocaleString()}${note.author ? `, ${note.author}` : ""}`}>
+                {note.body}
+              </Row>
+            ))}
+          </dl>
+        </>
+      )}
+    </article>
+  );
+}
@@ -0,0 +1,154 @@
+"use client";
+
+import { useState } from "react";
+import { CASE_STATUSES, CaseRecord, CaseStatus, normalizeTags } from "@/lib/cases";
+
+type Props = {
+  record: CaseRecord;
+  investigator: string;
+  onSave: (record: CaseRecord) => Promise<void>;
+};
+
+const STATUS_STYLES: Record<CaseStatus, string> = {
+  new: "border-cyan-700 text-cyan-300",
+  triaged: "border-yellow-700 text-yellow-300",
+  investigating: "border-orange-700 text-orange-300",
+  closed: "border-gray-700 text-gray-400",
+};
+
+export function StatusBadge({ status }: { status: CaseStatus }) {
+  return <span className={`text-xs px-2 py-0.5 rounded border capitalize ${STATUS_STYLES[status]}`}>{status}</span>;
+}
+
+// Status, assignee, tags and internal notes for one report
+export default function CasePanel({ record, investigator, onSave }: Props) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState<CaseRecord>(record);
+  const [tagsText, setTagsText] = useState(record.tags.join(", "));
+  const [note, setNote] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  function startEditing() {
+    setDraft(record);
+    setTagsText(record.tags.join(", "));
+    setNote("");
+    setEditing(true);
+  }
+
+  async function save() {
+    setBusy(true);
+    try {
+      const notes = note.trim()
+        ? [...draft.notes, { body: note.trim(), author: investigator || undefined, at: new Date().toISOString() }]
+        : draft.notes;
+      await onSave({
+        ...draft,
+        assignee: draft.assignee.trim(),
+        tags: normalizeTags(tagsText.split(",")),
+        notes,
+      });
+      setEditing(false);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not save case");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (!editing) {
+    return (
+      <div className="mb-3 flex flex-wrap items-center gap-2 text-xs">
+        <StatusBadge status={record.status} />
+        <span className="text-gray-400">{record.assignee ? `Assigned to ${record.assignee}` : "Unassigned"}</span>
+        {record.tags.map((t) => (
+          <span key={t} className="px-2 py-0.5 rounded bg-gray-800 text-gray-300">
+            #{t}
+          </span>
+        ))}
+        {record.notes.length > 0 && (
+          <span className="text-gray-500">
+            {record.notes.length} note{record.notes.length === 1 ? "" : "s"}
+          </span>
+        )}
+        <button className="ml-auto text-cyan-400 hover:text-cyan-300" onClick={startEditing}>
+          Edit case
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-4 space-y-3 border border-gray-800 rounded p-3 text-xs">
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2">
+          <span className="text-gray-400">Status</span>
+          <select
+            value={draft.status}
+            onChange={(e) => setDraft({ ...draft, status: e.target.value as CaseStatus })}
+            className="bg-black border border-gray-700 rounded px-2 py-1 capitalize"
+          >
+            {CASE_STATUSES.map((s) => (
+              <option key={s} value={s}>
+                {s}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          <span className="text-gray-400">Assignee</span>
+          <input
+            value={draft.assignee}
+            onChange={(e) => setDraft({ ...draft, assignee: e.target.value })}
+            className="w-40 bg-black border border-gray-700 rounded px-2 py-1"
+          />
+        </label>
+        <label className="flex flex-1 items-center gap-2 min-w-[200px]">
+          <span className="text-gray-400">Tags</span>
+          <input
+            value={tagsText}
+            onChange={(e) => setTagsText(e.target.value)}
+            placeholder="Comma separated"
+            className="flex-1 bg-black border border-gray-700 rounded px-2 py-1"
+          />
+        </label>
+      </div>
+
+      {draft.notes.length > 0 && (
+        <ul className="space-y-2">
+          {draft.notes.map((n, i) => (
+            <li key={i} className="border-l-2 border-gray-700 pl-2">
+              <p className="text-gray-500">
+                {n.author ? `${n.author} · ` : ""}
+                {new Date(n.at).toLocaleString()}
+              </p>
+              <p className="whitespace-pre-wrap text-gray-200 text-sm">{n.body}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <textarea
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        placeholder="Add an internal note (encrypted, never shown to the reporter)"
+        className="w-full bg-black border border-gray-700 rounded p-2 text-sm min-h-[60px]"
+      />
+
+      <div className="flex gap-2">
+        <button
+          className="px-3 py-1 border border-gray-600 rounded hover:bg-gray-800 disabled:opacity-40"
+          onClick={save}
+          disabled={busy}
+        >
+          {busy ? "Encrypting..." : "Save"}
+        </button>
+        <button className="px-3 py-1 text-gray-400 hover:text-gray-200" onClick={() => setEditing(false)}>
+          Cancel
+        </button>
+      </div>
+      {error && <p className="text-red-500">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+"use client";
+
+import { useState } from "react";
+import {
+  FollowupRef,
+  StoredMessage,
+  ThreadMessage,
+  decryptMessage,
+  encryptMessage,
+  reporterRecipient,
+} from "@/lib/followup";
+import { Recipient, importRecipients } from "@/lib/keys";
+
+type Props = {
+  formId: string;
+  blobId: string; // the report the conversation was opened with
+  followup: FollowupRef;
+  privateKey: CryptoKey;
+  fingerprint: string | null;
+  recipients: Recipient[];
+  adminToken: string;
+};
+
+// Admin side of a report's anonymous follow-up conversation
+export default function FollowupThread({
+  formId,
+  blobId,
+  followup,
+  privateKey,
+  fingerprint,
+  recipients,
+  adminToken,
+}: Props) {
+  const [open, setOpen] = useState(false);
+  const [messages, setMessages] = useState<ThreadMessage[] | null>(null);
+  const [reply, setReply] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function load() {
+    setBusy(true);
+    try {
+      const res = await fetch(`http://localhost:8000/threads/${formId}/${followup.threadId}`);
+      if (!res.ok) throw new Error("Could not load the conversation");
+      const data = await res.json();
+      if (data.blobId !== blobId) throw new Error("This conversation was opened with another report");
+
+      const result: ThreadMessage[] = [];
+      for (const m of data.messages as StoredMessage[]) {
+        try {
+          result.push(await decryptMessage(privateKey, m, followup.threadId, fingerprint ?? undefined));
+        } catch {
+          result.push({ from: m.from, body: "Could not decrypt or verify this message.", sentAt: m.postedAt });
+        }
+      }
+      setMessages(result);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not load the conversation");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function sendReply() {
+    if (!reply.trim()) return;
+    setBusy(true);
+    try {
+      if (!adminToken) throw new Error("Enter the admin token to reply");
+      // Readable by the reporter and by every current recipient of the form
+      const to = [...(await importRecipients(recipients)), await reporterRecipient(followup.publicKey)];
+      const encrypted = await encryptMessage(to, followup.threadId, "admin", reply.trim());
+      const res = await fetch(`http://localhost:8000/threads/${formId}/${followup.threadId}/messages`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "X-Admin-Token": adminToken },
+        body: JSON.stringify({ encrypted }),
+      });
+      if (res.status === 403) throw new Error("Admin token was rejected");
+      if (!res.ok) throw new Error("Could not send the reply");
+      setReply("");
+      setBusy(false);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not send the reply");
+      setBusy(false);
+    }
+  }
+
+  if (!open) {
+    return (
+      <button
+        className="mt-3 text-xs px-2 py-1 border border-gray-600 rounded hover:bg-gray-800"
+        onClick={() => {
+          setOpen(true);
+          load();
+        }}
+      >
+        Follow-up with reporter
+      </button>
+    );
+  }
+
+  return (
+    <div className="mt-4 border-t border-gray-800 pt-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-semibold text-gray-300">Anonymous follow-up</p>
+        <button className="text-xs text-gray-400 hover:text-gray-200" onClick={load} disabled={busy}>
+          Refresh
+        </button>
+      </div>
+
+      {messages && messages.length === 0 && <p className="text-xs text-gray-400">No messages yet.</p>}
+      {messages?.map((m, i) => (
+        <div
+          key={i}
+          className={`rounded border p-2 text-sm ${
+            m.from === "admin" ? "border-cyan-800 bg-cyan-950/30 ml-8" : "border-gray-700 mr-8"
+          }`}
+        >
+          <p className="text-xs text-gray-400 mb-1">
+            {m.from === "admin" ? "Investigator" : "Reporter"} · {new Date(m.sentAt).toLocaleString()}
+          </p>
+          <p className="whitespace-pre-wrap break-words">{m.body}</p>
+        </div>
+      ))}
+
+      <textarea
+        value={reply}
+        onChange={(e) => setReply(e.target.value)}
+        placeholder="Ask the reporter a question"
+        className="w-full bg-black border border-gray-700 p-2 rounded text-sm min-h-[80px]"
+      />
+      <button
+        className="px-3 py-1 border border-gray-600 rounded hover:bg-gray-800 text-sm disabled:opacity-40"
+        onClick={sendReply}
+        disabled={busy || !reply.trim()}
+      >
+        {busy ? "Working..." : "Send encrypted reply"}
+      </button>
+      {error && <p className="text-red-500 text-xs">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,293 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { KeyBackupFile, MIN_PASSPHRASE_LENGTH, parseKeyBackup, unlockKeyBackup } from "@/lib/keybackup";
+import {
+  KeyringEntry,
+  KeyringStatus,
+  addToKeyring,
+  createKeyring,
+  getKeyringEntry,
+  keyringStatus,
+  keyringSupported,
+  loadFromKeyring,
+  unlockKeyring,
+} from "@/lib/keyring";
+
+type Props = {
+  formId: string;
+  onUnlock: (jwk: JsonWebKey) => Promise<void>;
+  onKeyringKey: (key: CryptoKey, fingerprint: string) => void;
+};
+
+// Unlocks the form's private key from the local keyring, a passphrase
+// protected backup file, or a raw JWK paste as a last resort.
+export default function KeyLoader({ formId, onUnlock, onKeyringKey }: Props) {
+  const [status, setStatus] = useState<KeyringStatus | null>(null);
+  const [entry, setEntry] = useState<KeyringEntry | null>(null);
+  const [keyringPassphrase, setKeyringPassphrase] = useState("");
+  const [keyringConfirmation, setKeyringConfirmation] = useState("");
+  const [remember, setRemember] = useState(false);
+
+  const [backup, setBackup] = useState<KeyBackupFile | null>(null);
+  const [passphrase, setPassphrase] = useState("");
+  const [rawJwk, setRawJwk] = useState("");
+  const [dragging, setDragging] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Auto-unlock when the keyring already holds an unlocked key for this form
+  useEffect(() => {
+    if (!formId || !keyringSupported()) return;
+
+    async function checkKeyring() {
+      try {
+        const [st, found] = await Promise.all([keyringStatus(), getKeyringEntry(formId)]);
+        setStatus(st);
+        setEntry(found);
+        if (found && st.unlocked) {
+          const stored = await loadFromKeyring(formId);
+          if (stored) onKeyringKey(stored.key, stored.fingerprint);
+        }
+      } catch {
+        // keyring is optional, fall back to the manual paths
+      }
+    }
+
+    checkKeyring();
+  }, [formId, onKeyringKey]);
+
+  async function unlockFromKeyring() {
+    setBusy(true);
+    try {
+      await unlockKeyring(keyringPassphrase);
+      const stored = await loadFromKeyring(formId);
+      if (!stored) throw new Error("No key stored for this form");
+      setKeyringPassphrase("");
+      setError(null);
+      onKeyringKey(stored.key, stored.fingerprint);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not unlock keyring");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function finish(jwk: JsonWebKey) {
+    if (remember) {
+      if (!status?.initialized) {
+        await createKeyring(keyringPassphrase, keyringConfirmation);
+      } else if (!status.unlocked) {
+        await unlockKeyring(keyringPassphrase);
+      }
+      setStatus({ initialized: true, unlocked: true });
+      await addToKeyring(formId, jwk);
+      setKeyringPassphrase("");
+      setKeyringConfirmation("");
+    }
+    await onUnlock(jwk);
+  }
+
+  async function readBackupFile(file: File | undefined) {
+    if (!file) return;
+    try {
+      setBackup(parseKeyBackup(await file.text()));
+      setError(null);
+    } catch (err) {
+      setBackup(null);
+      setError(err instanceof Error ? err.message : "Could not read key backup");
+    }
+  }
+
+  async function unlockBackup() {
+    if (!backup) return;
+    setBusy(true);
+    try {
+      const jwk = await unlockKeyBackup(backup, passphrase);
+      await finish(jwk);
+      setPassphrase("");
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not unlock key backup");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function loadRawJwk() {
+    let jwk: JsonWebKey;
+    try {
+      jwk = JSON.parse(rawJwk);
+    } catch {
+      setError("Invalid private key format");
+      return;
+    }
+    try {
+      await finish(jwk);
+      setRawJwk("");
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error && remember ? err.message : "Invalid private key format");
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      {entry && status && !status.unlocked && (
+        <div className="space-y-2 border border-gray-700 rounded p-3 text-sm">
+          <p>
+            A key for this form is stored in the local keyring{" "}
+            <span className="font-mono text-xs text-gray-400">({entry.fingerprint})</span>.
+          </p>
+          <div className="flex gap-2">
+            <input
+              type="password"
+              value={keyringPassphrase}
+              onChange={(e) => setKeyringPassphrase(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && unlockFromKeyring()}
+              placeholder="Keyring passphrase"
+              autoComplete="current-password"
+              className="flex-1 bg-black border border-gray-700 px-2 py-1 rounded text-sm"
+            />
+            <button
+              className="px-3 py-1 border border-gray-600 rounded hover:bg-gray-800 text-sm disabled:opacity-40"
+              onClick={unlockFromKeyring}
+              disabled={busy || !keyringPassphrase}
+            >
+              Unlock keyring
+            </button>
+          </div>
+        </div>
+      )}
+
+      <label className="block font-medium">Admin key backup</label>
+
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setDragging(false);
+          readBackupFile(e.dataTransfer.files[0]);
+        }}
+        className={`rounded border border-dashed p-6 text-center text-sm ${
+          dragging ? "border-cyan-400 bg-cyan-950/30" : "border-gray-600"
+        }`}
+      >
+        <p className="text-gray-300">Drop your key backup file here</p>
+        <label className="mt-2 inline-block cursor-pointer text-xs text-cyan-400 hover:text-cyan-300">
+          or choose a file
+          <input
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => readBackupFile(e.target.files?.[0])}
+          />
+        </label>
+      </div>
+
+      {backup && (
+        <div className="space-y-2 border border-gray-700 rounded p-3 text-xs">
+          <p>
+            Form:{" "}
+            {backup.formId ? (
+              <span className="font-mono break-all">{backup.formId}</span>
+            ) : (
+              <span className="text-gray-400">personal recipient key</span>
+            )}
+          </p>
+          <p>Created: {new Date(backup.createdAt).toLocaleString()}</p>
+          <p>
+            Fingerprint: <span className="font-mono">{backup.fingerprint}</span>
+          </p>
+          {backup.formId && backup.formId !== formId && (
+            <p className="text-yellow-400">This backup was made for a different form.</p>
+          )}
+          <div className="flex gap-2 pt-1">
+            <input
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && unlockBackup()}
+              placeholder="Passphrase"
+              autoComplete="current-password"
+              className="flex-1 bg-black border border-gray-700 px-2 py-1 rounded text-sm"
+            />
+            <button
+              className="px-3 py-1 border border-gray-600 rounded hover:bg-gray-800 text-sm disabled:opacity-40"
+              onClick={unlockBackup}
+              disabled={busy || !passphrase}
+            >
+              {busy ? "Unlocking..." : "Unlock"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <details className="text-sm">
+        <summary className="cursor-pointer text-gray-400 text-xs">Paste a raw private key (JWK) instead</summary>
+        <textarea
+          className="mt-2 w-full h-40 bg-black border border-gray-700 p-2 rounded text-xs font-mono"
+          value={rawJwk}
+          onChange={(e) => setRawJwk(e.target.value)}
+        />
+        <button
+          className="mt-2 px-3 py-1 border border-gray-600 rounded hover:bg-gray-800 text-sm"
+          onClick={loadRawJwk}
+        >
+          Load key
+        </button>
+      </details>
+
+      {status && !entry && (
+        <div className="space-y-2 text-xs">
+          <label className="inline-flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={remember}
+              onChange={(e) => setRemember(e.target.checked)}
+              className="rounded border-gray-500 bg-black"
+            />
+            Remember this key in the local keyring
+          </label>
+          {remember && !status?.unlocked && (
+            <input
+              type="password"
+              value={keyringPassphrase}
+              onChange={(e) => setKeyringPassphrase(e.target.value)}
+              placeholder={
+                status?.initialized
+                  ? "Keyring passphrase"
+                  : `Choose a keyring passphrase (at least ${MIN_PASSPHRASE_LENGTH} characters)`
+              }
+              autoComplete={status?.initialized ? "current-password" : "new-password"}
+              className="block w-full bg-black border border-gray-700 px-2 py-1 rounded text-sm"
+            />
+          )}
+          {remember && !status?.initialized && (
+            <input
+              type="password"
+              value={keyringConfirmation}
+              onChange={(e) => setKeyringConfirmation(e.target.value)}
+              placeholder="Repeat the keyring passphrase"
+              autoComplete="new-password"
+              className="block w-full bg-black border border-gray-700 px-2 py-1 rounded text-sm"
+            />
+          )}
+          <p className="text-gray-500">
+            Keys are stored wrapped in IndexedDB on this device.{" "}
+            <Link href="/keyring" className="text-cyan-400 hover:text-cyan-300">
+              Manage keyring
+            </Link>
+          </p>
+        </div>
+      )}
+
+      {error && <p className="text-red-500 text-sm">{error}</p>}
+    </div>
+  );
+}
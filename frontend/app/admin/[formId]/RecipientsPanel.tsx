@@ -0,0 +1,145 @@
+"use client";
+
+import { useState } from "react";
+import { Recipient, makeRecipient, parsePublicJwk } from "@/lib/keys";
+
+type Props = {
+  formId: string;
+  recipients: Recipient[];
+  ownFingerprint: string | null;
+  adminToken: string;
+  onAdminTokenChange: (token: string) => void;
+  splitKey?: boolean;
+  onChange: (recipients: Recipient[]) => void;
+};
+
+// Lists who can read this form's reports and lets the owner change it.
+// Changes only apply to reports submitted afterwards: existing envelopes keep
+// the recipient set they were encrypted for.
+export default function RecipientsPanel({
+  formId,
+  recipients,
+  ownFingerprint,
+  adminToken,
+  onAdminTokenChange,
+  splitKey,
+  onChange,
+}: Props) {
+  const [label, setLabel] = useState("");
+  const [publicKey, setPublicKey] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function send(path: string, init: RequestInit) {
+    const res = await fetch(`http://localhost:8000/form/${formId}/recipients${path}`, {
+      ...init,
+      headers: { "Content-Type": "application/json", "X-Admin-Token": adminToken },
+    });
+    if (res.status === 403) throw new Error("Admin token was rejected");
+    if (!res.ok) {
+      const body = await res.json().catch(() => null);
+      throw new Error(body?.detail || `Backend error ${res.status}`);
+    }
+    const data = await res.json();
+    onChange(data.recipients as Recipient[]);
+  }
+
+  async function addRecipient() {
+    setBusy(true);
+    try {
+      const recipient = await makeRecipient(label.trim() || "Recipient", parsePublicJwk(publicKey));
+      await send("", { method: "POST", body: JSON.stringify(recipient) });
+      setLabel("");
+      setPublicKey("");
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not add recipient");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function removeRecipient(recipient: Recipient) {
+    if (!window.confirm(`Remove ${recipient.label}? They will not be able to read new reports.`)) return;
+    setBusy(true);
+    try {
+      await send(`/${encodeURIComponent(recipient.id)}`, { method: "DELETE" });
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not remove recipient");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <details className="mb-6 border border-gray-700 rounded p-4 text-sm">
+      <summary className="cursor-pointer font-medium">Recipients ({recipients.length})</summary>
+
+      <div className="mt-3 space-y-3">
+        <p className="text-xs text-gray-400">
+          Each recipient can decrypt new reports with their own key. Adding or removing someone only affects reports
+          submitted from now on.
+        </p>
+
+        <ul className="space-y-2">
+          {recipients.map((r) => (
+            <li key={r.id || r.publicKey} className="flex flex-wrap items-center gap-3">
+              <span>{r.label}</span>
+              <span className="font-mono text-xs text-gray-400">{r.id || "legacy key"}</span>
+              {ownFingerprint && r.id === ownFingerprint && <span className="text-xs text-green-400">you</span>}
+              {recipients.length > 1 && (
+                <button
+                  className="text-xs text-red-400 hover:text-red-300 disabled:opacity-40"
+                  onClick={() => removeRecipient(r)}
+                  disabled={busy || !adminToken}
+                >
+                  Remove
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        {splitKey ? (
+          <p className="text-xs text-yellow-400 border-t border-gray-800 pt-3">
+            This form uses split-key custody. Adding a recipient would let one person read reports alone, so its
+            recipients cannot be changed.
+          </p>
+        ) : (
+          <div className="space-y-2 border-t border-gray-800 pt-3">
+            <input
+              type="password"
+              value={adminToken}
+              onChange={(e) => onAdminTokenChange(e.target.value)}
+              placeholder="Admin token (shown when the form was created)"
+              className="w-full bg-black border border-gray-700 px-2 py-1 rounded text-xs"
+            />
+            <input
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="New recipient name or role"
+              className="w-full bg-black border border-gray-700 px-2 py-1 rounded text-xs"
+            />
+            <textarea
+              value={publicKey}
+              onChange={(e) => setPublicKey(e.target.value)}
+              placeholder="Their public key (JWK)"
+              rows={3}
+              className="w-full bg-black border border-gray-700 px-2 py-1 rounded text-xs font-mono"
+            />
+            <button
+              className="px-3 py-1 border border-gray-600 rounded hover:bg-gray-800 text-xs disabled:opacity-40"
+              onClick={addRecipient}
+              disabled={busy || !adminToken || !publicKey}
+            >
+              Add recipient
+            </button>
+          </div>
+        )}
+
+        {error && <p className="text-red-500 text-xs">{error}</p>}
+      </div>
+    </details>
+  );
+}
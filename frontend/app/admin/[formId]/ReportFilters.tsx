@@ -0,0 +1,139 @@
+"use client";
+
+import { AnswerFilter, ReportFilter, activeFilterCount, filterKind, filterableFields } from "@/lib/reportfilter";
+import { Field, FormSchema } from "@/lib/schema";
+
+type Props = {
+  schema: FormSchema | null;
+  filter: ReportFilter;
+  onChange: (filter: ReportFilter) => void;
+};
+
+const controlClass = "bg-black border border-gray-700 rounded px-2 py-1";
+
+function numberOrUndefined(text: string) {
+  return text.trim() === "" || !Number.isFinite(Number(text)) ? undefined : Number(text);
+}
+
+// Full-text search plus per-question answer filters built from the form schema
+export default function ReportFilters({ schema, filter, onChange }: Props) {
+  const fields = schema ? filterableFields(schema) : [];
+
+  function setAnswer(fieldId: string, answer: AnswerFilter | null) {
+    const answers = { ...filter.answers };
+    if (answer) answers[fieldId] = answer;
+    else delete answers[fieldId];
+    onChange({ ...filter, answers });
+  }
+
+  function renderControl(field: Field) {
+    const current = filter.answers[field.id];
+
+    switch (filterKind(field.type)) {
+      case "choice":
+        return (
+          <select
+            value={current?.kind === "choice" ? current.value : ""}
+            onChange={(e) => setAnswer(field.id, e.target.value ? { kind: "choice", value: e.target.value } : null)}
+            className={controlClass}
+          >
+            <option value="">Any</option>
+            {(field.options || []).map((opt) => (
+              <option key={opt} value={opt}>
+                {opt}
+              </option>
+            ))}
+          </select>
+        );
+
+      case "range": {
+        const range = current?.kind === "range" ? current : { kind: "range" as const };
+        const update = (patch: { min?: number; max?: number }) => {
+          const next = { ...range, ...patch };
+          setAnswer(field.id, next.min === undefined && next.max === undefined ? null : next);
+        };
+        return (
+          <div className="flex items-center gap-1">
+            <input
+              type="number"
+              value={range.min ?? ""}
+              onChange={(e) => update({ min: numberOrUndefined(e.target.value) })}
+              placeholder={field.type === "rating" ? String(field.min ?? 1) : "min"}
+              className={`${controlClass} w-16`}
+            />
+            <span className="text-gray-500">to</span>
+            <input
+              type="number"
+              value={range.max ?? ""}
+              onChange={(e) => update({ max: numberOrUndefined(e.target.value) })}
+              placeholder={field.type === "rating" ? String(field.max ?? 5) : "max"}
+              className={`${controlClass} w-16`}
+            />
+          </div>
+        );
+      }
+
+      case "checked":
+        return (
+          <select
+            value={current?.kind === "checked" ? String(current.value) : ""}
+            onChange={(e) =>
+              setAnswer(field.id, e.target.value ? { kind: "checked", value: e.target.value === "true" } : null)
+            }
+            className={controlClass}
+          >
+            <option value="">Any</option>
+            <option value="true">Checked</option>
+            <option value="false">Not checked</option>
+          </select>
+        );
+
+      default:
+        return null;
+    }
+  }
+
+  const active = activeFilterCount(filter);
+
+  return (
+    <div className="space-y-2 text-xs">
+      <div className="flex items-center gap-2">
+        <input
+          type="search"
+          value={filter.query}
+          onChange={(e) => onChange({ ...filter, query: e.target.value })}
+          placeholder="Search all answers"
+          className={`${controlClass} flex-1 py-1.5 text-sm`}
+        />
+        {active > 0 && (
+          <button
+            type="button"
+            onClick={() => onChange({ query: "", answers: {} })}
+            className="text-gray-400 hover:text-gray-200"
+          >
+            Clear {active} {active === 1 ? "filter" : "filters"}
+          </button>
+        )}
+      </div>
+
+      {fields.length > 0 && (
+        <details>
+          <summary className="cursor-pointer text-gray-400">
+            Filter by answer
+            {Object.keys(filter.answers).length > 0 && ` (${Object.keys(filter.answers).length} active)`}
+          </summary>
+          <div className="mt-2 grid gap-x-4 gap-y-2 sm:grid-cols-2">
+            {fields.map((field) => (
+              <label key={field.id} className="flex items-center justify-between gap-2">
+                <span className="truncate text-gray-300" title={field.label}>
+                  {field.label}
+                </span>
+                {renderControl(field)}
+              </label>
+            ))}
+          </div>
+        </details>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+"use client";
+
+import { useState } from "react";
+import { Recipient, importPrivateJwk, keyFingerprint } from "@/lib/keys";
+import { KeyShareFile, ThresholdPolicy, combineKeyShares, parseKeyShare } from "@/lib/keyshares";
+
+type Props = {
+  formId: string;
+  policy: ThresholdPolicy;
+  recipients: Recipient[];
+  onKey: (key: CryptoKey, fingerprint: string) => void;
+};
+
+// Collects custodian shares for a split-key form. Once enough are present the
+// private key is rebuilt and imported as a non-extractable CryptoKey; the
+// shares and the combined JWK only ever live in this component's memory.
+export default function ShareCollector({ formId, policy, recipients, onKey }: Props) {
+  const [shares, setShares] = useState<KeyShareFile[]>([]);
+  const [pasted, setPasted] = useState("");
+  const [dragging, setDragging] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The whole batch is checked before any of it is kept, so shares dropped
+  // together are compared with each other and not only with earlier ones
+  function addShares(texts: string[]) {
+    try {
+      const added: KeyShareFile[] = [];
+      for (const text of texts) {
+        const share = parseKeyShare(text);
+        const existing = [...shares, ...added];
+        if (share.formId !== formId) throw new Error("This share belongs to a different form");
+        if (share.threshold !== policy.k || share.total !== policy.n) {
+          throw new Error(
+            `This share is for a ${share.threshold} of ${share.total} split, not ${policy.k} of ${policy.n}`
+          );
+        }
+        if (existing.length && share.fingerprint !== existing[0].fingerprint) {
+          throw new Error("This share belongs to a different key");
+        }
+        if (existing.some((s) => s.index === share.index)) throw new Error(`Share ${share.index} was already added`);
+        added.push(share);
+      }
+      setShares([...shares, ...added]);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not read key share");
+    }
+  }
+
+  async function addFiles(files: FileList | null) {
+    addShares(await Promise.all(Array.from(files || []).map((file) => file.text())));
+  }
+
+  async function unlock() {
+    setBusy(true);
+    try {
+      const jwk = await combineKeyShares(shares);
+      // The share files name their own fingerprint; the form's recipient list is what counts
+      const fingerprint = await keyFingerprint(jwk);
+      if (!recipients.some((r) => r.id === fingerprint)) {
+        throw new Error("The combined key is not this form's key");
+      }
+      const key = await importPrivateJwk(jwk);
+      setShares([]);
+      setError(null);
+      onKey(key, fingerprint);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not combine key shares");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  // From the stored form policy, never from the share files
+  const needed = policy.k;
+
+  return (
+    <div className="space-y-3">
+      <label className="block font-medium">Custodian shares</label>
+      <p className="text-xs text-gray-400">
+        This form&apos;s key is split between {policy.n} custodians. {needed} of them must add their share to open the
+        inbox. The combined key is kept in memory only and is gone when this page is closed.
+      </p>
+
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setDragging(false);
+          addFiles(e.dataTransfer.files);
+        }}
+        className={`rounded border border-dashed p-6 text-center text-sm ${
+          dragging ? "border-cyan-400 bg-cyan-950/30" : "border-gray-600"
+        }`}
+      >
+        <p className="text-gray-300">Drop share files here</p>
+        <label className="mt-2 inline-block cursor-pointer text-xs text-cyan-400 hover:text-cyan-300">
+          or choose files
+          <input
+            type="file"
+            multiple
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => addFiles(e.target.files)}
+          />
+        </label>
+      </div>
+
+      <details className="text-sm">
+        <summary className="cursor-pointer text-gray-400 text-xs">Paste a share instead</summary>
+        <textarea
+          className="mt-2 w-full h-28 bg-black border border-gray-700 p-2 rounded text-xs font-mono"
+          value={pasted}
+          onChange={(e) => setPasted(e.target.value)}
+        />
+        <button
+          className="mt-2 px-3 py-1 border border-gray-600 rounded hover:bg-gray-800 text-sm"
+          onClick={() => {
+            addShares([pasted]);
+            setPasted("");
+          }}
+        >
+          Add share
+        </button>
+      </details>
+
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <span>
+          {shares.length} of {needed} shares
+        </span>
+        {shares.map((s) => (
+          <span key={s.index} className="text-xs px-2 py-0.5 rounded border border-gray-700 text-gray-300">
+            #{s.index}
+          </span>
+        ))}
+        {shares.length > 0 && (
+          <button className="text-xs text-red-400 hover:text-red-300" onClick={() => setShares([])}>
+            Clear
+          </button>
+        )}
+      </div>
+
+      <button
+        className="px-3 py-1 border border-gray-600 rounded hover:bg-gray-800 text-sm disabled:opacity-40"
+        onClick={unlock}
+        disabled={busy || shares.length < needed}
+      >
+        {busy ? "Combining..." : "Unlock inbox"}
+      </button>
+
+      {error && <p className="text-red-500 text-sm">{error}</p>}
+    </div>
+  );
+}
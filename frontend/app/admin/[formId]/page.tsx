@@ -1,154 +1,572 @@
 "use client";
 
-import { useParams } from "next/navigation";
-import { useEffect, useState } from "react";
-
-type FieldType =
-  | "text"
-  | "textarea"
-  | "number"
-  | "select"
-  | "multi-select"
-  | "rating"
-  | "checkbox";
-
-type Field = {
-  id: string;
-  label: string;
-  type: FieldType;
-};
-
-type FormSchema = {
-  fields: Field[];
-};
-
-type Submission = {
-  blobId: string;
-  encrypted: string;
-};
+import { useParams, useSearchParams } from "next/navigation";
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+import { FormArchive, fetchArchivedBlob } from "@/lib/archive";
+import { decryptEnvelope } from "@/lib/envelope";
+import { AttachmentRef, decryptAttachment, formatBytes, isAttachmentRef } from "@/lib/attachments";
+import {
+  CASE_STATUSES,
+  CaseFilter,
+  CaseRecord,
+  CaseStatus,
+  EMPTY_CASE_FILTER,
+  StoredCase,
+  UNASSIGNED,
+  decryptCase,
+  emptyCase,
+  encryptCase,
+  matchesCaseFilter,
+} from "@/lib/cases";
+import { downloadFile } from "@/lib/download";
+import { CSV_TYPE, ExportReport, XLSX_TYPE, reportTable, toCsv, toXlsx } from "@/lib/exports";
+import { FOLLOWUP_FIELD, isFollowupRef } from "@/lib/followup";
+import {
+  INBOX_PAGE_SIZE,
+  InboxState,
+  Submission,
+  SubmissionPage,
+  cachePage,
+  clearInbox,
+  loadInbox,
+  markSeen,
+} from "@/lib/inbox";
+import { Recipient, importPrivateJwk, importRecipients, keyFingerprint } from "@/lib/keys";
+import { lockKeyring } from "@/lib/keyring";
+import {
+  EMPTY_REPORT_FILTER,
+  ReportFilter,
+  SortDirection,
+  compareAnswers,
+  matchesReportFilter,
+  sortLabels,
+  sortableFields,
+} from "@/lib/reportfilter";
+import { Field, FormSchema, formatAnswer, parseFormSchema } from "@/lib/schema";
+import { AGGREGATOR_BASE } from "@/lib/walrus";
+import AnalyticsPanel from "./AnalyticsPanel";
+import ArchivePanel from "./ArchivePanel";
+import CaseFile from "./CaseFile";
+import CasePanel from "./CasePanel";
+import FollowupThread from "./FollowupThread";
+import KeyLoader from "./KeyLoader";
+import RecipientsPanel from "./RecipientsPanel";
+import ReportFilters from "./ReportFilters";
+import ShareCollector from "./ShareCollector";
 
 type DecryptedItem = {
   blobId: string;
   data: Record<string, any> | string;
+  failed?: boolean; // retried when another key is loaded
+};
+
+type OpenedAttachment = {
+  url: string;
+  name: string;
+  type: string;
 };
 
 export default function AdminInboxPage() {
   const { formId } = useParams<{ formId: string }>();
+  // ?offline never contacts the backend; reports only come from an opened archive
+  const offline = useSearchParams().has("offline");
 
-  const [privateKey, setPrivateKey] = useState("");
   const [cryptoKey, setCryptoKey] = useState<CryptoKey | null>(null);
+  const [fingerprint, setFingerprint] = useState<string | null>(null);
+  const [keyFromKeyring, setKeyFromKeyring] = useState(false);
 
   const [schema, setSchema] = useState<FormSchema | null>(null);
+  const [recipients, setRecipients] = useState<Recipient[]>([]);
   const [submissions, setSubmissions] = useState<Submission[]>([]);
+  const [inbox, setInbox] = useState<InboxState | null>(null);
+  // snapshot of inbox.seen when the page opened, so "new" badges survive decrypting
+  const [seenBefore, setSeenBefore] = useState<Set<string>>(new Set());
+  const [total, setTotal] = useState<number | null>(null);
+  const [lastFetched, setLastFetched] = useState<number | null>(null);
   const [decrypted, setDecrypted] = useState<DecryptedItem[]>([]);
+  const [opened, setOpened] = useState<Record<string, OpenedAttachment>>({});
+  const [opening, setOpening] = useState<string | null>(null);
+
+  const [cases, setCases] = useState<Record<string, CaseRecord>>({});
+  const [caseFilter, setCaseFilter] = useState<CaseFilter>(EMPTY_CASE_FILTER);
+  const [investigator, setInvestigator] = useState("");
+  // shown once when the form was created; needed for case edits and recipient changes
+  const [adminToken, setAdminToken] = useState("");
+  const [reportFilter, setReportFilter] = useState<ReportFilter>(EMPTY_REPORT_FILTER);
+  // "" keeps arrival order, otherwise "<fieldId>:asc|desc"
+  const [sortBy, setSortBy] = useState("");
+  const [view, setView] = useState<"reports" | "analytics">("reports");
+  // blob id of the report open in the detail view
+  const [detailId, setDetailId] = useState<string | null>(null);
+  // blob id of the report being printed as a case file
+  const [printId, setPrintId] = useState<string | null>(null);
+
+  // an opened archive replaces the backend and the local cache as the source of reports
+  const [archive, setArchive] = useState<FormArchive | null>(null);
+  const [aggregator, setAggregator] = useState(AGGREGATOR_BASE);
+  const standalone = offline || archive !== null;
 
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
 
   // Load schema for labels
   useEffect(() => {
-    if (!formId) return;
+    if (!formId || standalone) return;
 
     async function loadSchema() {
       try {
         const res = await fetch(`http://localhost:8000/form/${formId}`);
         if (!res.ok) return;
         const data = await res.json();
-        setSchema(data.schema as FormSchema);
-      } catch {
-        // non fatal for admin page
+        setRecipients((data.recipients || []) as Recipient[]);
+        setSchema(parseFormSchema(data.schema));
+      } catch (err) {
+        // non fatal for admin page, reports are shown as raw JSON instead
+        setError(`Could not load the form schema: ${err instanceof Error ? err.message : "unknown error"}`);
       }
     }
 
     loadSchema();
-  }, [formId]);
+  }, [formId, standalone]);
 
-  async function importPrivateKey(jwkStr: string) {
-    try {
-      const jwk = JSON.parse(jwkStr);
-
-      const key = await window.crypto.subtle.importKey(
-        "jwk",
-        jwk,
-        { name: "RSA-OAEP", hash: "SHA-256" },
-        true,
-        ["decrypt"]
-      );
+  // Ciphertext fetched on earlier visits
+  useEffect(() => {
+    if (!formId || standalone) return;
+
+    loadInbox(formId)
+      .then(({ submissions, state }) => {
+        setSubmissions(submissions);
+        setInbox(state);
+        setSeenBefore(new Set(state.seen));
+      })
+      .catch(() => {
+        setError("Local inbox cache is unavailable; every visit will refetch all submissions");
+        setInbox({ cursor: 0, seen: [] });
+      });
+  }, [formId, standalone]);
+
+  async function loadPrivateKey(jwk: JsonWebKey) {
+    const key = await importPrivateJwk(jwk);
+    setFingerprint(await keyFingerprint(jwk));
+    setCryptoKey(key);
+    setKeyFromKeyring(false);
+    setError(null);
+  }
 
-      setCryptoKey(key);
-      setError(null);
-    } catch {
-      setError("Invalid private key format");
-    }
+  const handleKeyringKey = useCallback((key: CryptoKey, fp: string) => {
+    setCryptoKey(key);
+    setFingerprint(fp);
+    setKeyFromKeyring(true);
+    setError(null);
+  }, []);
+
+  function handleSharedKey(key: CryptoKey, fp: string) {
+    setCryptoKey(key);
+    setFingerprint(fp);
+    setKeyFromKeyring(false);
+    setError(null);
+  }
+
+  // Reports that failed under the previous key get another try with this one
+  useEffect(() => {
+    setDecrypted((prev) => prev.filter((item) => !item.failed));
+  }, [cryptoKey]);
+
+  async function unloadKey() {
+    if (keyFromKeyring) await lockKeyring();
+    setCryptoKey(null);
+    setFingerprint(null);
+    setKeyFromKeyring(false);
+    // nothing decrypted under the key stays on screen or in memory
+    setDecrypted([]);
+    setCases({});
+    Object.values(opened).forEach((file) => URL.revokeObjectURL(file.url));
+    setOpened({});
+    setDetailId(null);
   }
 
   async function fetchEncrypted() {
-    if (!formId) return;
+    if (!formId || !inbox) return;
     setLoading(true);
     try {
-      const res = await fetch(`http://localhost:8000/submissions/${formId}`);
-      if (!res.ok) throw new Error("Failed to fetch submissions");
+      let state = inbox;
+      let fetched = 0;
+      let hasMore = true;
+
+      // The backend keeps submissions in memory and numbers them from 1 again
+      // after a restart, so a cached cursor can skip reports it never sent us.
+      // Fetch the item at the cursor again and start over unless it is the one
+      // cached under that number.
+      if (state.cursor > 0) {
+        const res = await fetch(`http://localhost:8000/submissions/${formId}?after=${state.cursor - 1}&limit=1`);
+        if (!res.ok) throw new Error("Failed to fetch submissions");
+        const [first] = ((await res.json()) as SubmissionPage).items;
+        const cached = submissions.find((sub) => sub.seq === state.cursor);
+        if (!cached || first?.seq !== state.cursor || first.blobId !== cached.blobId) {
+          await clearLocalCache();
+          state = { cursor: 0, seen: [] };
+        }
+      }
+
+      while (hasMore) {
+        const res = await fetch(
+          `http://localhost:8000/submissions/${formId}?after=${state.cursor}&limit=${INBOX_PAGE_SIZE}`
+        );
+        if (!res.ok) throw new Error("Failed to fetch submissions");
+
+        const page = (await res.json()) as SubmissionPage;
+        try {
+          state = await cachePage(formId, page, state);
+        } catch {
+          state = { ...state, cursor: page.nextCursor };
+        }
+        setInbox(state);
+        setSubmissions((prev) => {
+          const known = new Set(prev.map((sub) => sub.blobId));
+          return [...prev, ...page.items.filter((sub) => !known.has(sub.blobId))];
+        });
+        setTotal(page.total);
+        fetched += page.items.length;
+        hasMore = page.hasMore;
+      }
 
-      const data = (await res.json()) as Submission[];
-      setSubmissions(data);
-      setDecrypted([]);
+      setLastFetched(fetched);
       setError(null);
-    } catch (err: any) {
-      setError(err.message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch submissions");
     } finally {
       setLoading(false);
     }
   }
 
   async function decryptAll() {
-    if (!cryptoKey) return;
+    if (!cryptoKey || !formId) return;
 
+    const done = new Set(decrypted.map((item) => item.blobId));
     const results: DecryptedItem[] = [];
 
-    for (const sub of submissions) {
+    for (const sub of submissions.filter((s) => !done.has(s.blobId))) {
       try {
-        const encryptedBytes = Uint8Array.from(atob(sub.encrypted), (c) =>
-          c.charCodeAt(0)
-        );
-
-        const decryptedBuf = await window.crypto.subtle.decrypt(
-          { name: "RSA-OAEP" },
-          cryptoKey,
-          encryptedBytes
-        );
-
-        const decoded = new TextDecoder().decode(decryptedBuf);
-        let parsed: any;
+        const decoded = await decryptEnvelope(cryptoKey, sub.encrypted, fingerprint ?? undefined);
+        // Anything but a plain object, including JSON null, is shown as raw text
+        let parsed: DecryptedItem["data"] = decoded;
         try {
-          parsed = JSON.parse(decoded);
+          const json: unknown = JSON.parse(decoded);
+          if (typeof json === "object" && json !== null && !Array.isArray(json)) {
+            parsed = json as Record<string, unknown>;
+          }
         } catch {
-          parsed = decoded;
+          // not JSON
         }
 
         results.push({ blobId: sub.blobId, data: parsed });
       } catch {
-        results.push({ blobId: sub.blobId, data: "Failed to decrypt" });
+        results.push({ blobId: sub.blobId, data: "Failed to decrypt", failed: true });
+      }
+    }
+
+    setDecrypted((prev) => [...prev, ...results]);
+    if (inbox && !standalone) {
+      const readable = results.filter((item) => typeof item.data === "object").map((item) => item.blobId);
+      setInbox(await markSeen(formId, inbox, readable).catch(() => inbox));
+    }
+    await loadCases(cryptoKey);
+  }
+
+  function resetReports() {
+    setSubmissions([]);
+    setDecrypted([]);
+    setCases({});
+    setDetailId(null);
+    Object.values(opened).forEach((file) => URL.revokeObjectURL(file.url));
+    setOpened({});
+    setSeenBefore(new Set());
+    setTotal(null);
+    setLastFetched(null);
+  }
+
+  async function clearLocalCache() {
+    if (!formId) return;
+    try {
+      await clearInbox(formId);
+    } catch {
+      // nothing cached
+    }
+    resetReports();
+    setInbox({ cursor: 0, seen: [] });
+  }
+
+  // Nothing from the archive is written to the local inbox cache
+  function openArchive(opened: FormArchive) {
+    resetReports();
+    setArchive(opened);
+    setRecipients(opened.recipients);
+    setSubmissions(opened.submissions);
+    setSeenBefore(new Set(opened.submissions.map((sub) => sub.blobId)));
+    try {
+      setSchema(parseFormSchema(opened.schema));
+      setError(null);
+    } catch (err) {
+      setSchema(null);
+      setError(`Archived form schema is unreadable: ${err instanceof Error ? err.message : "unknown error"}`);
+    }
+  }
+
+  function closeArchive() {
+    resetReports();
+    setArchive(null);
+    setSchema(null);
+    setRecipients([]);
+  }
+
+  async function loadCases(key: CryptoKey) {
+    try {
+      let stored: StoredCase[];
+      if (standalone) {
+        stored = archive?.cases ?? [];
+      } else {
+        const res = await fetch(`http://localhost:8000/cases/${formId}`);
+        if (!res.ok) throw new Error("Failed to fetch case data");
+        stored = (await res.json()) as StoredCase[];
+      }
+
+      const result: Record<string, CaseRecord> = {};
+      for (const c of stored) {
+        try {
+          result[c.blobId] = await decryptCase(key, c.encrypted, fingerprint ?? undefined);
+        } catch {
+          // encrypted for a recipient set we are not part of; start fresh
+        }
       }
+      setCases(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch case data");
     }
+  }
+
+  async function saveCase(blobId: string, record: CaseRecord) {
+    if (standalone) throw new Error("Case records are read-only without the backend");
+    if (!recipients.length) throw new Error("Form recipients are not loaded");
+    if (!adminToken) throw new Error("Enter the admin token to save case changes");
+    const encrypted = await encryptCase(await importRecipients(recipients), record);
+    const res = await fetch(`http://localhost:8000/cases/${formId}/${blobId}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json", "X-Admin-Token": adminToken },
+      body: JSON.stringify({ encrypted }),
+    });
+    if (res.status === 403) throw new Error("Admin token was rejected");
+    if (!res.ok) throw new Error("Failed to save case");
+    setCases((prev) => ({ ...prev, [blobId]: record }));
+  }
 
-    setDecrypted(results);
+  const pending = submissions.length - decrypted.length;
+  const newCount = submissions.filter((sub) => !seenBefore.has(sub.blobId)).length;
+
+  const caseOf = (blobId: string) => cases[blobId] ?? emptyCase();
+  const sortFields = schema ? sortableFields(schema) : [];
+  const visible = sortReports(
+    decrypted.filter(
+      (item) =>
+        matchesCaseFilter(caseOf(item.blobId), caseFilter) &&
+        (typeof item.data === "object"
+          ? matchesReportFilter(schema, item.data, reportFilter)
+          : !reportFilter.query.trim() && !Object.keys(reportFilter.answers).length)
+    )
+  );
+  const storedAt = new Map(submissions.map((sub) => [sub.blobId, sub.storedAt]));
+  const statsInput = visible.flatMap((item) =>
+    typeof item.data === "object" ? [{ data: item.data, storedAt: storedAt.get(item.blobId) }] : []
+  );
+  const printItem = printId ? decrypted.find((item) => item.blobId === printId) ?? null : null;
+  const detailItem = detailId ? decrypted.find((item) => item.blobId === detailId) ?? null : null;
+  const detailIndex = detailItem ? visible.indexOf(detailItem) : -1;
+  const previousItem = detailIndex > 0 ? visible[detailIndex - 1] : null;
+  // both stay null while the open report is outside the current filter
+  const nextItem = detailIndex !== -1 ? (visible[detailIndex + 1] ?? null) : null;
+  const allTags = [...new Set(decrypted.flatMap((item) => caseOf(item.blobId).tags))].sort();
+  const allAssignees = [...new Set(decrypted.map((item) => caseOf(item.blobId).assignee).filter(Boolean))].sort();
+  const statusCounts = Object.fromEntries(
+    CASE_STATUSES.map((st) => [st, decrypted.filter((item) => caseOf(item.blobId).status === st).length])
+  ) as Record<CaseStatus, number>;
+
+  // Unanswered reports and ones that failed to decrypt go last
+  function sortReports(items: DecryptedItem[]) {
+    const [fieldId, dir] = sortBy.split(":");
+    const field = sortFields.find((f) => f.id === fieldId);
+    if (!field) return items;
+    const answer = (item: DecryptedItem) => (typeof item.data === "object" ? item.data[fieldId] : undefined);
+    return [...items].sort((a, b) => compareAnswers(field, answer(a), answer(b), dir as SortDirection));
   }
 
+  // Arrow keys page through the detail view, Escape goes back to the list
+  useEffect(() => {
+    if (!detailId) return;
+    function onKey(e: KeyboardEvent) {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))) return;
+      if (e.key === "ArrowLeft" && previousItem) setDetailId(previousItem.blobId);
+      else if (e.key === "ArrowRight" && nextItem) setDetailId(nextItem.blobId);
+      else if (e.key === "Escape") setDetailId(null);
+    }
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [detailId, previousItem, nextItem]);
+
+  // The case file only exists in the DOM while printing; the browser dialog saves it as PDF
+  useEffect(() => {
+    if (!printId) return;
+    const done = () => setPrintId(null);
+    window.addEventListener("afterprint", done);
+    window.print();
+    return () => window.removeEventListener("afterprint", done);
+  }, [printId]);
+
   function downloadJson() {
     if (!decrypted.length) return;
     const payload = decrypted.map((item) => ({
       blobId: item.blobId,
       data: item.data,
     }));
-    const blob = new Blob([JSON.stringify(payload, null, 2)], {
-      type: "application/json",
-    });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `cipherwhisp-${formId}.json`;
-    a.click();
-    URL.revokeObjectURL(url);
+    downloadFile(`cipherwhisp-${formId}.json`, JSON.stringify(payload, null, 2));
+  }
+
+  // Spreadsheet of the reports matching the current filters, in the current sort order
+  function downloadTable(format: "csv" | "xlsx") {
+    const reports: ExportReport[] = visible.flatMap((item) =>
+      typeof item.data === "object"
+        ? [{ blobId: item.blobId, storedAt: storedAt.get(item.blobId), data: item.data, caseRecord: cases[item.blobId] }]
+        : []
+    );
+    if (!reports.length) return;
+    const table = reportTable(schema, reports);
+    if (format === "csv") downloadFile(`cipherwhisp-${formId}.csv`, toCsv(table), CSV_TYPE);
+    else downloadFile(`cipherwhisp-${formId}.xlsx`, toXlsx(table), XLSX_TYPE);
+  }
+
+  async function openAttachment(ref: AttachmentRef, field: Field) {
+    if (opened[ref.blobId]) return;
+    setOpening(ref.blobId);
+    try {
+      let encrypted: string;
+      if (archive) {
+        const included = archive.attachments.find((a) => a.blobId === ref.blobId);
+        const listed = archive.manifest.attachments.find((a) => a.blobId === ref.blobId);
+        if (included) encrypted = included.encrypted;
+        else if (listed) encrypted = await fetchArchivedBlob(listed, aggregator);
+        else throw new Error(`Attachment "${ref.name}" is not in the archive`);
+      } else {
+        const res = await fetch(`http://localhost:8000/attachments/${formId}/${ref.blobId}`);
+        if (!res.ok) throw new Error(`Failed to fetch attachment "${ref.name}"`);
+        encrypted = (await res.json()).encrypted;
+      }
+      const blob = await decryptAttachment(ref, encrypted, field.accept);
+      const url = URL.createObjectURL(blob);
+      setOpened((prev) => ({ ...prev, [ref.blobId]: { url, name: ref.name, type: blob.type } }));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to decrypt attachment");
+    } finally {
+      setOpening(null);
+    }
+  }
+
+  function renderAttachment(ref: AttachmentRef, field: Field) {
+    const file = opened[ref.blobId];
+
+    return (
+      <div key={ref.blobId} className="border border-gray-800 rounded p-2 space-y-2">
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <span className="break-all">{ref.name}</span>
+          <span className="text-xs text-gray-400">
+            {ref.type} · {formatBytes(ref.size)}
+          </span>
+          {file ? (
+            <a
+              href={file.url}
+              download={file.name}
+              className="text-xs px-2 py-1 border border-gray-600 rounded hover:bg-gray-800"
+            >
+              Download
+            </a>
+          ) : (
+            <button
+              className="text-xs px-2 py-1 border border-gray-600 rounded hover:bg-gray-800 disabled:opacity-40"
+              onClick={() => openAttachment(ref, field)}
+              disabled={opening === ref.blobId}
+            >
+              {opening === ref.blobId ? "Decrypting..." : "Decrypt"}
+            </button>
+          )}
+        </div>
+
+        {file && file.type.startsWith("image/") && (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={file.url} alt={file.name} className="max-h-80 rounded border border-gray-800" />
+        )}
+        {file && file.type.startsWith("audio/") && <audio controls src={file.url} className="w-full" />}
+        {file && file.type.startsWith("video/") && <video controls src={file.url} className="max-h-80 w-full" />}
+        {file && file.type === "application/pdf" && (
+          <iframe src={file.url} title={file.name} className="w-full h-96 rounded border border-gray-800 bg-white" />
+        )}
+      </div>
+    );
+  }
+
+  function renderReport(item: DecryptedItem) {
+    return (
+      <div key={item.blobId} className="border border-gray-700 rounded p-4 bg-black/60">
+        <div className="flex items-start justify-between gap-3 mb-2">
+          <p className="text-xs text-gray-400">
+            {!seenBefore.has(item.blobId) && (
+              <span className="mr-2 px-1.5 py-0.5 rounded bg-cyan-900 text-cyan-200">New</span>
+            )}
+            Blob ID: <span className="font-mono break-all">{item.blobId}</span>
+          </p>
+          <div className="flex shrink-0 gap-3">
+            {typeof item.data === "object" && (
+              <button
+                onClick={() => setPrintId(item.blobId)}
+                title="Print or save as PDF"
+                className="text-xs text-cyan-400 hover:text-cyan-300"
+              >
+                Case file
+              </button>
+            )}
+            {detailId !== item.blobId && (
+              <button
+                onClick={() => {
+                  setDetailId(item.blobId);
+                  window.scrollTo({ top: 0 });
+                }}
+                className="text-xs text-cyan-400 hover:text-cyan-300"
+              >
+                Open
+              </button>
+            )}
+          </div>
+        </div>
+        {typeof item.data === "object" && (
+          <CasePanel
+            record={caseOf(item.blobId)}
+            investigator={investigator}
+            onSave={(record) => saveCase(item.blobId, record)}
+          />
+        )}
+        {renderDecrypted(item)}
+        {cryptoKey && !standalone && typeof item.data === "object" && isFollowupRef(item.data[FOLLOWUP_FIELD]) && (
+          <FollowupThread
+            formId={formId}
+            blobId={item.blobId}
+            followup={item.data[FOLLOWUP_FIELD]}
+            privateKey={cryptoKey}
+            fingerprint={fingerprint}
+            recipients={recipients}
+            adminToken={adminToken}
+          />
+        )}
+      </div>
+    );
   }
 
   function renderDecrypted(item: DecryptedItem) {
@@ -171,23 +589,35 @@ export default function AdminInboxPage() {
         {knownFields.map((field) => {
           usedKeys.add(field.id);
           const v = (data as Record<string, any>)[field.id];
+
+          // conditional question the reporter was never shown
+          if (field.showIf?.length && !(field.id in data)) return null;
+
+          if (field.type === "file") {
+            const refs = Array.isArray(v) ? v.filter(isAttachmentRef) : [];
+            return (
+              <div key={field.id}>
+                <p className="text-xs font-semibold text-gray-300">{field.label}</p>
+                {refs.length === 0 ? (
+                  <p className="text-sm text-gray-100">Not provided</p>
+                ) : (
+                  <div className="mt-1 space-y-2">{refs.map((ref) => renderAttachment(ref, field))}</div>
+                )}
+              </div>
+            );
+          }
+
           return (
             <div key={field.id}>
               <p className="text-xs font-semibold text-gray-300">{field.label}</p>
-              <p className="text-sm text-gray-100 break-words">
-                {v === undefined || v === null || v === ""
-                  ? "Not provided"
-                  : Array.isArray(v)
-                  ? v.join(", ")
-                  : String(v)}
-              </p>
+              <p className="text-sm text-gray-100 break-words">{formatAnswer(field, v)}</p>
             </div>
           );
         })}
 
         {/* Any extra keys that are not in schema */}
         {Object.entries(data as Record<string, any>)
-          .filter(([key]) => !usedKeys.has(key))
+          .filter(([key]) => !usedKeys.has(key) && key !== FOLLOWUP_FIELD)
           .map(([key, v]) => (
             <div key={key}>
               <p className="text-xs font-semibold text-gray-300">{key}</p>
@@ -201,75 +631,287 @@ export default function AdminInboxPage() {
   }
 
   return (
-    <main className="min-h-screen p-8 max-w-4xl mx-auto text-gray-100">
-      <h1 className="text-3xl font-bold mb-2">Admin Inbox</h1>
-      <p className="text-gray-400 mb-4 text-sm">Form ID: {formId}</p>
-
-      {/* Private key input */}
-      <div className="mb-6">
-        <label className="block mb-2 font-medium">Admin private key</label>
-        <textarea
-          className="w-full h-40 bg-black border border-gray-700 p-2 rounded text-xs font-mono"
-          value={privateKey}
-          onChange={(e) => setPrivateKey(e.target.value)}
-        />
-        <button
-          className="mt-2 px-3 py-1 border border-gray-600 rounded hover:bg-gray-800 text-sm"
-          onClick={() => importPrivateKey(privateKey)}
-        >
-          Load key
-        </button>
-      </div>
-
-      {/* Actions */}
-      {cryptoKey && (
-        <div className="mb-6 flex flex-wrap gap-3">
-          <button
-            className="px-3 py-2 border border-gray-600 rounded hover:bg-gray-800 text-sm"
-            onClick={fetchEncrypted}
-          >
-            Fetch encrypted submissions
-          </button>
-
-          <button
-            className="px-3 py-2 border border-gray-600 rounded hover:bg-gray-800 text-sm disabled:opacity-40"
-            onClick={decryptAll}
-            disabled={submissions.length === 0}
-          >
-            Decrypt all
-          </button>
-
-          <button
-            className="px-3 py-2 border border-gray-600 rounded hover:bg-gray-800 text-sm disabled:opacity-40"
-            onClick={downloadJson}
-            disabled={decrypted.length === 0}
-          >
-            Download JSON
-          </button>
+    <>
+      <main className="min-h-screen p-8 max-w-4xl mx-auto text-gray-100 print:hidden">
+        <h1 className="text-3xl font-bold mb-2">Admin Inbox</h1>
+        <p className="text-gray-400 mb-4 text-sm">Form ID: {formId}</p>
+
+        {/* Private key input */}
+        <div className="mb-6">
+          {cryptoKey ? (
+            <div className="flex flex-wrap items-center gap-3 text-sm">
+              <span className="text-green-400">Key loaded</span>
+              {fingerprint && <span className="font-mono text-xs text-gray-400">{fingerprint}</span>}
+              <button
+                className="px-3 py-1 border border-gray-600 rounded hover:bg-gray-800 text-xs"
+                onClick={unloadKey}
+              >
+                {keyFromKeyring ? "Lock keyring" : "Unload key"}
+              </button>
+              <Link href="/keyring" className="text-xs text-cyan-400 hover:text-cyan-300">
+                Manage keyring
+              </Link>
+            </div>
+          ) : schema?.threshold ? (
+            <ShareCollector
+              formId={formId}
+              policy={schema.threshold}
+              recipients={recipients}
+              onKey={handleSharedKey}
+            />
+          ) : (
+            <KeyLoader formId={formId} onUnlock={loadPrivateKey} onKeyringKey={handleKeyringKey} />
+          )}
         </div>
-      )}
 
-      {loading && <p className="text-gray-400 text-sm">Loading...</p>}
-      {error && <p className="text-red-500 text-sm">{error}</p>}
+        <ArchivePanel
+          formId={formId}
+          archive={archive}
+          offline={offline}
+          aggregator={aggregator}
+          onAggregatorChange={setAggregator}
+          onOpen={openArchive}
+          onClose={closeArchive}
+        />
 
-      {/* Decrypted output */}
-      {decrypted.length > 0 && (
-        <section className="mt-6 space-y-4">
-          <h2 className="text-xl font-semibold">Decrypted reports</h2>
+        {recipients.length > 0 && !standalone && (
+          <RecipientsPanel
+            formId={formId}
+            recipients={recipients}
+            ownFingerprint={fingerprint}
+            adminToken={adminToken}
+            onAdminTokenChange={setAdminToken}
+            splitKey={!!schema?.threshold}
+            onChange={setRecipients}
+          />
+        )}
+
+        {/* Actions */}
+        {cryptoKey && (
+          <div className="mb-6 flex flex-wrap gap-3">
+            {!standalone && (
+              <button
+                className="px-3 py-2 border border-gray-600 rounded hover:bg-gray-800 text-sm"
+                onClick={fetchEncrypted}
+                disabled={loading || !inbox}
+              >
+                {submissions.length ? "Fetch new submissions" : "Fetch encrypted submissions"}
+              </button>
+            )}
+
+            <button
+              className="px-3 py-2 border border-gray-600 rounded hover:bg-gray-800 text-sm disabled:opacity-40"
+              onClick={decryptAll}
+              disabled={pending <= 0}
+            >
+              {decrypted.length ? `Decrypt ${Math.max(pending, 0)} remaining` : "Decrypt all"}
+            </button>
 
-          {decrypted.map((item) => (
-            <div
-              key={item.blobId}
-              className="border border-gray-700 rounded p-4 bg-black/60"
+            <button
+              className="px-3 py-2 border border-gray-600 rounded hover:bg-gray-800 text-sm disabled:opacity-40"
+              onClick={downloadJson}
+              disabled={decrypted.length === 0}
             >
-              <p className="text-xs text-gray-400 mb-2">
-                Blob ID: <span className="font-mono break-all">{item.blobId}</span>
-              </p>
-              {renderDecrypted(item)}
+              Download JSON
+            </button>
+
+            <button
+              className="px-3 py-2 border border-gray-600 rounded hover:bg-gray-800 text-sm disabled:opacity-40"
+              onClick={() => downloadTable("csv")}
+              disabled={visible.length === 0}
+              title="Reports matching the current filters"
+            >
+              Export CSV
+            </button>
+
+            <button
+              className="px-3 py-2 border border-gray-600 rounded hover:bg-gray-800 text-sm disabled:opacity-40"
+              onClick={() => downloadTable("xlsx")}
+              disabled={visible.length === 0}
+              title="Reports matching the current filters"
+            >
+              Export XLSX
+            </button>
+
+            {!standalone && (
+              <button
+                className="px-3 py-2 border border-gray-600 rounded hover:bg-gray-800 text-sm disabled:opacity-40"
+                onClick={clearLocalCache}
+                disabled={submissions.length === 0}
+              >
+                Clear local cache
+              </button>
+            )}
+          </div>
+        )}
+
+        {cryptoKey && !standalone && submissions.length > 0 && (
+          <p className="mb-4 text-xs text-gray-400">
+            {submissions.length} {submissions.length === 1 ? "report" : "reports"} cached on this device
+            {total !== null && total > submissions.length && ` (${total} on the server)`} · {newCount} new since your
+            last visit
+            {lastFetched !== null && ` · last fetch downloaded ${lastFetched}`}
+          </p>
+        )}
+
+        {loading && <p className="text-gray-400 text-sm">Loading...</p>}
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+
+        {/* Decrypted output */}
+        {decrypted.length > 0 && (
+          <section className="mt-6 space-y-4">
+            <div className="flex items-center justify-between gap-3">
+              <h2 className="text-xl font-semibold">Decrypted reports</h2>
+              {schema && (
+                <div className="flex text-xs">
+                  {(["reports", "analytics"] as const).map((v) => (
+                    <button
+                      key={v}
+                      onClick={() => setView(v)}
+                      aria-pressed={view === v}
+                      className={`px-3 py-1 border first:rounded-l last:rounded-r ${
+                        view === v ? "border-cyan-500 text-cyan-300" : "border-gray-700 text-gray-400 hover:bg-gray-800"
+                      }`}
+                    >
+                      {v === "reports" ? "Reports" : "Analytics"}
+                    </button>
+                  ))}
+                </div>
+              )}
             </div>
-          ))}
-        </section>
+
+            <ReportFilters schema={schema} filter={reportFilter} onChange={setReportFilter} />
+
+            <div className="flex flex-wrap items-center gap-3 text-xs border border-gray-800 rounded p-3">
+              <select
+                value={caseFilter.status}
+                onChange={(e) => setCaseFilter((f) => ({ ...f, status: e.target.value as CaseStatus | "" }))}
+                className="bg-black border border-gray-700 rounded px-2 py-1"
+              >
+                <option value="">All statuses ({decrypted.length})</option>
+                {CASE_STATUSES.map((st) => (
+                  <option key={st} value={st}>
+                    {st} ({statusCounts[st]})
+                  </option>
+                ))}
+              </select>
+              <select
+                value={caseFilter.tag}
+                onChange={(e) => setCaseFilter((f) => ({ ...f, tag: e.target.value }))}
+                className="bg-black border border-gray-700 rounded px-2 py-1"
+              >
+                <option value="">All tags</option>
+                {allTags.map((t) => (
+                  <option key={t} value={t}>
+                    #{t}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={caseFilter.assignee}
+                onChange={(e) => setCaseFilter((f) => ({ ...f, assignee: e.target.value }))}
+                className="bg-black border border-gray-700 rounded px-2 py-1"
+              >
+                <option value="">Any assignee</option>
+                <option value={UNASSIGNED}>Unassigned</option>
+                {allAssignees.map((a) => (
+                  <option key={a} value={a}>
+                    {a}
+                  </option>
+                ))}
+              </select>
+              {sortFields.length > 0 && (
+                <select
+                  value={sortBy}
+                  onChange={(e) => setSortBy(e.target.value)}
+                  className="bg-black border border-gray-700 rounded px-2 py-1"
+                >
+                  <option value="">Arrival order</option>
+                  {sortFields.flatMap((f) =>
+                    (["desc", "asc"] as const).map((dir) => (
+                      <option key={`${f.id}:${dir}`} value={`${f.id}:${dir}`}>
+                        {f.label}, {sortLabels(f)[dir]}
+                      </option>
+                    ))
+                  )}
+                </select>
+              )}
+              <span className="text-gray-500">
+                Showing {visible.length} of {decrypted.length}
+              </span>
+              <input
+                value={investigator}
+                onChange={(e) => setInvestigator(e.target.value)}
+                placeholder="Your name for notes"
+                className="ml-auto w-40 bg-black border border-gray-700 rounded px-2 py-1"
+              />
+              {!standalone && (
+                <input
+                  type="password"
+                  value={adminToken}
+                  onChange={(e) => setAdminToken(e.target.value)}
+                  placeholder="Admin token for edits"
+                  className="w-40 bg-black border border-gray-700 rounded px-2 py-1"
+                />
+              )}
+            </div>
+
+            {view === "analytics" && schema ? (
+              <AnalyticsPanel schema={schema} reports={statsInput} />
+            ) : detailItem ? (
+              <div className="space-y-3">
+                <div className="flex flex-wrap items-center gap-3 text-xs">
+                  <button
+                    onClick={() => setDetailId(null)}
+                    className="px-2 py-1 border border-gray-600 rounded hover:bg-gray-800"
+                  >
+                    Back to list
+                  </button>
+                  <span className="text-gray-400">
+                    {detailIndex === -1
+                      ? "Not in the current filter"
+                      : `Report ${detailIndex + 1} of ${visible.length}`}
+                  </span>
+                  <div className="ml-auto flex gap-2">
+                    <button
+                      onClick={() => previousItem && setDetailId(previousItem.blobId)}
+                      disabled={!previousItem}
+                      title="Previous (Left arrow)"
+                      className="px-2 py-1 border border-gray-600 rounded hover:bg-gray-800 disabled:opacity-40"
+                    >
+                      Previous
+                    </button>
+                    <button
+                      onClick={() => nextItem && setDetailId(nextItem.blobId)}
+                      disabled={!nextItem}
+                      title="Next (Right arrow)"
+                      className="px-2 py-1 border border-gray-600 rounded hover:bg-gray-800 disabled:opacity-40"
+                    >
+                      Next
+                    </button>
+                  </div>
+                </div>
+                {renderReport(detailItem)}
+              </div>
+            ) : (
+              visible.map(renderReport)
+            )}
+          </section>
+        )}
+      </main>
+
+      {printItem && typeof printItem.data === "object" && (
+        <div className="hidden print:block">
+          <CaseFile
+            formId={formId}
+            schema={schema}
+            blobId={printItem.blobId}
+            storedAt={storedAt.get(printItem.blobId)}
+            data={printItem.data}
+            caseRecord={caseOf(printItem.blobId)}
+          />
+        </div>
       )}
-    </main>
+    </>
   );
 }
@@ -0,0 +1,131 @@
+"use client";
+
+import { CONDITION_OPERATORS, Condition, ConditionOperator, operatorNeedsValue } from "@/lib/conditions";
+
+type Candidate = {
+  id: string;
+  label: string;
+  type: string;
+  options?: string[];
+};
+
+type Props = {
+  title: string;
+  conditions: Condition[];
+  // Only earlier questions can be referenced
+  candidates: Candidate[];
+  onChange: (conditions: Condition[]) => void;
+};
+
+const inputClass =
+  "rounded border border-slate-600 bg-black px-2 py-1 outline-none focus:border-cyan-400 focus:ring-1 focus:ring-cyan-500";
+
+// One show-if or required-if rule: every condition must hold
+export default function ConditionEditor({ title, conditions, candidates, onChange }: Props) {
+  function update(index: number, patch: Partial<Condition>) {
+    onChange(conditions.map((c, i) => (i === index ? { ...c, ...patch } : c)));
+  }
+
+  function add() {
+    const nearest = candidates[candidates.length - 1];
+    if (!nearest) return;
+    onChange([...conditions, { field: nearest.id, op: "equals", value: nearest.options?.[0] ?? "" }]);
+  }
+
+  function remove(index: number) {
+    onChange(conditions.filter((_, i) => i !== index));
+  }
+
+  function renderValue(cond: Condition, index: number) {
+    if (!operatorNeedsValue(cond.op)) return null;
+    const target = candidates.find((c) => c.id === cond.field);
+    const choices = target?.type === "checkbox" ? ["true", "false"] : target?.options;
+
+    if (choices?.length) {
+      return (
+        <select
+          value={cond.value ?? ""}
+          onChange={(e) => update(index, { value: e.target.value })}
+          className={`w-40 ${inputClass}`}
+        >
+          {!choices.includes(cond.value ?? "") && <option value={cond.value ?? ""}>{cond.value || "Select..."}</option>}
+          {choices.map((opt) => (
+            <option key={opt} value={opt}>
+              {target?.type === "checkbox" ? (opt === "true" ? "checked" : "not checked") : opt}
+            </option>
+          ))}
+        </select>
+      );
+    }
+
+    return (
+      <input
+        value={cond.value ?? ""}
+        onChange={(e) => update(index, { value: e.target.value })}
+        placeholder="Value"
+        className={`w-40 ${inputClass}`}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-gray-400">{title}</span>
+        <button
+          type="button"
+          onClick={add}
+          disabled={!candidates.length}
+          className="px-2 py-0.5 rounded border border-slate-600 hover:bg-slate-800 disabled:opacity-40"
+        >
+          + Condition
+        </button>
+      </div>
+
+      {!candidates.length && conditions.length === 0 && (
+        <p className="text-gray-500">Rules can only depend on questions above this one.</p>
+      )}
+
+      {conditions.some((c) => !candidates.some((q) => q.id === c.field)) && (
+        <p className="text-red-400">
+          This rule depends on a question that is not above this one. Pick another question or remove the
+          condition; the form cannot be created until you do.
+        </p>
+      )}
+
+      {conditions.map((cond, index) => (
+        <div key={index} className="flex flex-wrap items-center gap-2">
+          <span className="w-8 text-gray-500">{index === 0 ? "If" : "and"}</span>
+          <select
+            value={cond.field}
+            onChange={(e) => update(index, { field: e.target.value })}
+            aria-invalid={!candidates.some((c) => c.id === cond.field)}
+            className={`w-44 ${inputClass} aria-[invalid=true]:border-red-500`}
+          >
+            {!candidates.some((c) => c.id === cond.field) && <option value={cond.field}>{cond.field} (not above)</option>}
+            {candidates.map((c) => (
+              <option key={c.id} value={c.id}>
+                {c.label || c.id}
+              </option>
+            ))}
+          </select>
+          <select
+            value={cond.op}
+            onChange={(e) => update(index, { op: e.target.value as ConditionOperator })}
+            className={`w-36 ${inputClass}`}
+          >
+            {Object.entries(CONDITION_OPERATORS).map(([op, label]) => (
+              <option key={op} value={op}>
+                {label}
+              </option>
+            ))}
+          </select>
+          {renderValue(cond, index)}
+          <button type="button" onClick={() => remove(index)} className="text-red-400 hover:text-red-300">
+            Remove
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+"use client";
+
+import { useState } from "react";
+import { downloadFile } from "@/lib/download";
+import { FormDefinition, SavedTemplate, definitionFileName, parseFormDefinition, saveTemplate } from "@/lib/templates";
+
+type Props = {
+  title: string;
+  description: string;
+  onTitleChange: (title: string) => void;
+  onDescriptionChange: (description: string) => void;
+  // throws when the form in the builder is not valid yet
+  buildDefinition: () => FormDefinition;
+  onImport: (definition: FormDefinition) => void;
+  onSaved: (template: SavedTemplate) => void;
+};
+
+const inputClass =
+  "w-full rounded-md border border-slate-600 bg-black px-3 py-1.5 text-sm outline-none focus:border-cyan-400 focus:ring-1 focus:ring-cyan-500";
+const buttonClass = "text-xs px-3 py-1.5 rounded-md border border-slate-600 hover:bg-slate-800 disabled:opacity-40";
+
+// Name the form definition, export or import it as JSON, or keep it as a local template
+export default function DefinitionPanel({
+  title,
+  description,
+  onTitleChange,
+  onDescriptionChange,
+  buildDefinition,
+  onImport,
+  onSaved,
+}: Props) {
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  function report(message: string) {
+    setStatus(message);
+    setError(null);
+  }
+
+  function fail(err: unknown, fallback: string) {
+    setStatus(null);
+    setError(err instanceof Error ? err.message : fallback);
+  }
+
+  function exportDefinition() {
+    try {
+      const definition = buildDefinition();
+      downloadFile(definitionFileName(definition), JSON.stringify(definition, null, 2));
+      report(`Exported "${definition.title}"`);
+    } catch (err) {
+      fail(err, "Could not export the form");
+    }
+  }
+
+  async function importDefinition(file: File | undefined) {
+    if (!file) return;
+    try {
+      const definition = parseFormDefinition(await file.text());
+      onImport(definition);
+      report(`Imported "${definition.title}". Undo restores the previous questions.`);
+    } catch (err) {
+      fail(err, "Could not read the form definition");
+    }
+  }
+
+  async function saveToLibrary() {
+    setSaving(true);
+    try {
+      const template = await saveTemplate(buildDefinition());
+      onSaved(template);
+      report(`Saved "${template.definition.title}" to your templates on this device`);
+    } catch (err) {
+      fail(err, "Could not save the template");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <details className="mb-6 border border-slate-700 rounded-lg p-3 text-sm">
+      <summary className="cursor-pointer text-sm font-medium">Save, export or import this form</summary>
+      <div className="mt-3 space-y-3">
+        <div className="grid gap-2 sm:grid-cols-2">
+          <input
+            value={title}
+            onChange={(e) => onTitleChange(e.target.value)}
+            placeholder="Template name"
+            className={inputClass}
+          />
+          <input
+            value={description}
+            onChange={(e) => onDescriptionChange(e.target.value)}
+            placeholder="Short description"
+            className={inputClass}
+          />
+        </div>
+        <p className="text-xs text-gray-400">
+          Definitions hold the questions, pages and key custody setting. They never contain keys or recipients, so they
+          are safe to share with other teams.
+        </p>
+        <div className="flex flex-wrap items-center gap-2">
+          <button type="button" onClick={exportDefinition} className={buttonClass}>
+            Export JSON
+          </button>
+          <label className={`${buttonClass} cursor-pointer`}>
+            Import JSON
+            <input
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                importDefinition(e.target.files?.[0]);
+                e.target.value = "";
+              }}
+            />
+          </label>
+          <button type="button" onClick={saveToLibrary} disabled={saving} className={buttonClass}>
+            {saving ? "Saving..." : "Save as my template"}
+          </button>
+        </div>
+        {status && <p className="text-xs text-green-400">{status}</p>}
+        {error && <p className="text-xs text-red-500">{error}</p>}
+      </div>
+    </details>
+  );
+}
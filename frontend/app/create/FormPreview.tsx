@@ -0,0 +1,129 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import FieldInput, { reviewAnswer } from "@/components/FieldInput";
+import FormHeading from "@/components/FormHeading";
+import { isRequired } from "@/lib/conditions";
+import { Field, FormDetails, FormSchema, checkAnswer, normalizeFormSchema, validateAnswers, visibleFields } from "@/lib/schema";
+import { FormSection, formSteps } from "@/lib/sections";
+
+type Props = {
+  details: FormDetails;
+  fields: Field[];
+  sections: FormSection[];
+};
+
+const buttonClass = "px-3 py-1.5 rounded-md border border-slate-600 hover:bg-slate-800 text-xs disabled:opacity-40";
+
+// The reporter form as it would be published, for test-filling in the builder.
+// Answers stay in memory and nothing is encrypted or sent.
+export default function FormPreview({ details, fields, sections }: Props) {
+  const [values, setValues] = useState<Record<string, unknown>>({});
+  const [flagged, setFlagged] = useState<string[]>([]);
+  const [step, setStep] = useState(0);
+
+  // Same normalization the form gets on create, so the preview matches what reporters see
+  const built = useMemo((): { schema: FormSchema } | { error: string } => {
+    try {
+      return { schema: normalizeFormSchema({ ...details, fields, sections }) };
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : "This form cannot be published yet" };
+    }
+  }, [details, fields, sections]);
+
+  if ("error" in built) {
+    return (
+      <div className="border border-amber-700/60 rounded-lg p-4 text-sm text-amber-300">
+        Preview unavailable: {built.error}
+      </div>
+    );
+  }
+
+  const { schema } = built;
+  const steps = formSteps(visibleFields(schema, values), schema.sections);
+  const currentStep = Math.min(step, steps.length);
+  const reviewing = currentStep === steps.length;
+
+  function checkPage() {
+    const errors = validateAnswers(schema, values, steps[currentStep].fields);
+    setFlagged(errors.map((e) => e.fieldId));
+    if (!errors.length) setStep(currentStep + 1);
+  }
+
+  function reset() {
+    setValues({});
+    setFlagged([]);
+    setStep(0);
+  }
+
+  return (
+    <div className="border border-slate-700 rounded-lg p-4 bg-black/60 space-y-5">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-xs text-gray-400">
+          Preview · {reviewing ? "Review" : `Step ${currentStep + 1} of ${steps.length + 1}`}. Test answers are not
+          saved or sent.
+        </p>
+        <button type="button" onClick={reset} className={buttonClass}>
+          Reset answers
+        </button>
+      </div>
+
+      {currentStep === 0 && <FormHeading schema={schema} />}
+
+      {reviewing ? (
+        <div className="space-y-4">
+          <p className="text-sm font-semibold">Review</p>
+          {steps
+            .flatMap((s) => s.fields)
+            .map((field) => (
+              <div key={field.id}>
+                <p className="text-xs text-gray-400">{field.label}</p>
+                <p className="text-sm break-words whitespace-pre-wrap">{reviewAnswer(field, values[field.id])}</p>
+              </div>
+            ))}
+          <p className="text-xs text-green-400">
+            Every answer passes validation. Reporters would encrypt and send here.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {steps[currentStep].section && (
+            <div>
+              <h3 className="text-lg font-semibold">{steps[currentStep].section?.title}</h3>
+              {steps[currentStep].section?.description && (
+                <p className="text-sm text-gray-400 mt-1">{steps[currentStep].section?.description}</p>
+              )}
+            </div>
+          )}
+          {steps[currentStep].fields.map((field) => {
+            const error = flagged.includes(field.id) ? checkAnswer(field, schema, values) : null;
+            return (
+              <div key={field.id}>
+                <FieldInput
+                  field={field}
+                  value={values[field.id]}
+                  required={isRequired(field, schema.fields, values)}
+                  onChange={(value) => setValues((v) => ({ ...v, [field.id]: value }))}
+                />
+                {error && <p className="text-xs text-red-400 mt-1">{error}</p>}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex gap-3">
+        {currentStep > 0 && (
+          <button type="button" onClick={() => setStep(currentStep - 1)} className={buttonClass}>
+            Back
+          </button>
+        )}
+        {!reviewing && (
+          <button type="button" onClick={checkPage} className={buttonClass}>
+            Next
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
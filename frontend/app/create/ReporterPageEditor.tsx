@@ -0,0 +1,164 @@
+"use client";
+
+import { useState } from "react";
+import Markdown from "@/components/Markdown";
+import { DEFAULT_ACCENT, LOGO_TYPES, MAX_LOGO_KB, readLogo } from "@/lib/branding";
+import { FormDetails, MAX_TEXT_LENGTH, MAX_TITLE_LENGTH } from "@/lib/schema";
+
+type Props = {
+  details: FormDetails;
+  onChange: (patch: FormDetails) => void;
+};
+
+const inputClass =
+  "w-full rounded-md border border-slate-600 bg-black px-3 py-1.5 text-sm outline-none focus:border-cyan-400 focus:ring-1 focus:ring-cyan-500";
+const labelClass = "text-xs font-semibold uppercase tracking-wide text-gray-400";
+
+function MarkdownInput({
+  label,
+  value,
+  placeholder,
+  onChange,
+}: {
+  label: string;
+  value: string;
+  placeholder: string;
+  onChange: (value: string) => void;
+}) {
+  const [previewing, setPreviewing] = useState(false);
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between">
+        <label className={labelClass}>{label}</label>
+        <button
+          type="button"
+          onClick={() => setPreviewing((p) => !p)}
+          className="text-xs text-cyan-400 hover:text-cyan-300"
+        >
+          {previewing ? "Edit" : "Preview"}
+        </button>
+      </div>
+      {previewing ? (
+        <div className="min-h-[96px] rounded-md border border-slate-700 p-3 text-gray-200">
+          {value.trim() ? <Markdown text={value} /> : <p className="text-xs text-gray-500">Nothing to show yet.</p>}
+        </div>
+      ) : (
+        <textarea
+          value={value}
+          maxLength={MAX_TEXT_LENGTH}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={placeholder}
+          className={`${inputClass} min-h-[96px]`}
+        />
+      )}
+    </div>
+  );
+}
+
+// Heading, intro, look and thank-you message of the reporter page
+export default function ReporterPageEditor({ details, onChange }: Props) {
+  const [logoError, setLogoError] = useState<string | null>(null);
+  const branding = details.branding || {};
+
+  async function pickLogo(file: File | undefined) {
+    if (!file) return;
+    try {
+      onChange({ branding: { ...branding, logo: await readLogo(file) } });
+      setLogoError(null);
+    } catch (err) {
+      setLogoError(err instanceof Error ? err.message : "Could not read the logo");
+    }
+  }
+
+  return (
+    <section className="mb-6 space-y-4">
+      <h2 className="text-lg font-semibold">Reporter page</h2>
+
+      <div className="space-y-1">
+        <label className={labelClass}>Form title</label>
+        <input
+          value={details.title ?? ""}
+          maxLength={MAX_TITLE_LENGTH}
+          onChange={(e) => onChange({ title: e.target.value })}
+          placeholder="Submit anonymous report"
+          className={inputClass}
+        />
+      </div>
+
+      <MarkdownInput
+        label="Intro"
+        value={details.intro ?? ""}
+        placeholder={
+          "Who reads these reports and what happens next.\n\nSupports **bold**, *italic*, - lists and [links](https://example.org)."
+        }
+        onChange={(intro) => onChange({ intro })}
+      />
+
+      <div className="flex flex-wrap items-end gap-6">
+        <div className="space-y-1">
+          <label className={labelClass}>Accent colour</label>
+          <div className="flex items-center gap-2">
+            <input
+              type="color"
+              value={branding.accent ?? DEFAULT_ACCENT}
+              onChange={(e) => onChange({ branding: { ...branding, accent: e.target.value } })}
+              className="h-8 w-12 cursor-pointer rounded border border-slate-600 bg-black"
+            />
+            {branding.accent && (
+              <button
+                type="button"
+                onClick={() => onChange({ branding: { ...branding, accent: undefined } })}
+                className="text-xs text-gray-400 hover:text-gray-200"
+              >
+                Reset
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <label className={labelClass}>Logo</label>
+          <div className="flex items-center gap-3">
+            {branding.logo && (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img src={branding.logo} alt="Form logo" className="h-8 max-w-[120px] object-contain" />
+            )}
+            <label className="cursor-pointer text-xs px-3 py-1.5 rounded-md border border-slate-600 hover:bg-slate-800">
+              {branding.logo ? "Replace" : "Upload"}
+              <input
+                type="file"
+                accept={LOGO_TYPES.join(",")}
+                className="hidden"
+                onChange={(e) => {
+                  pickLogo(e.target.files?.[0]);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+            {branding.logo && (
+              <button
+                type="button"
+                onClick={() => onChange({ branding: { ...branding, logo: undefined } })}
+                className="text-xs text-red-400 hover:text-red-300"
+              >
+                Remove
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+      <p className="text-xs text-gray-400">
+        The logo is stored inside the form (PNG, JPEG or WebP up to {MAX_LOGO_KB} KB), so reporters never load anything
+        from your servers.
+      </p>
+      {logoError && <p className="text-xs text-red-500">{logoError}</p>}
+
+      <MarkdownInput
+        label="Thank-you message"
+        value={details.thankYou ?? ""}
+        placeholder="Shown after the report is sent, above the receipt. Leave empty for the default message."
+        onChange={(thankYou) => onChange({ thankYou })}
+      />
+    </section>
+  );
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import { FormSection } from "@/lib/sections";
+
+type Props = {
+  sections: FormSection[];
+  onChange: (sections: FormSection[]) => void;
+};
+
+const inputClass =
+  "w-full rounded-md border border-slate-600 bg-black px-3 py-1.5 text-sm outline-none focus:border-cyan-400 focus:ring-1 focus:ring-cyan-500";
+
+function nextSectionId(sections: FormSection[]) {
+  let n = sections.length + 1;
+  while (sections.some((s) => s.id === `section_${n}`)) n++;
+  return `section_${n}`;
+}
+
+// Pages of the form, each shown as one step to the reporter
+export default function SectionsEditor({ sections, onChange }: Props) {
+  function update(index: number, patch: Partial<FormSection>) {
+    onChange(sections.map((s, i) => (i === index ? { ...s, ...patch } : s)));
+  }
+
+  function add() {
+    onChange([...sections, { id: nextSectionId(sections), title: `Page ${sections.length + 1}` }]);
+  }
+
+  function remove(index: number) {
+    onChange(sections.filter((_, i) => i !== index));
+  }
+
+  return (
+    <section className="mb-6 space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">Pages</h2>
+        <button
+          type="button"
+          onClick={add}
+          className="text-xs px-3 py-1.5 rounded-md border border-slate-600 hover:bg-slate-800"
+        >
+          + Add page
+        </button>
+      </div>
+
+      {sections.length === 0 ? (
+        <p className="text-xs text-gray-400">
+          All questions are shown on one page. Add pages to split long forms into steps with a progress bar.
+        </p>
+      ) : (
+        <p className="text-xs text-gray-400">
+          Pick a page for each question below. Questions without one go on the first page.
+        </p>
+      )}
+
+      {sections.map((section, index) => (
+        <div key={section.id} className="border border-slate-700 rounded-lg p-3 bg-black/60 space-y-2">
+          <div className="flex items-center gap-3">
+            <span className="text-xs text-gray-500 w-14">Page {index + 1}</span>
+            <input
+              value={section.title}
+              onChange={(e) => update(index, { title: e.target.value })}
+              placeholder="Page title"
+              className={inputClass}
+            />
+            <button type="button" onClick={() => remove(index)} className="text-xs text-red-400 hover:text-red-300">
+              Remove
+            </button>
+          </div>
+          <textarea
+            value={section.description || ""}
+            onChange={(e) => update(index, { description: e.target.value })}
+            placeholder="Description (optional)"
+            rows={2}
+            className={`${inputClass} text-xs`}
+          />
+        </div>
+      ))}
+    </section>
+  );
+}
@@ -1,50 +1,123 @@
 "use client";
 
-import { useState } from "react";
-
-type FieldType =
-  | "text"
-  | "textarea"
-  | "number"
-  | "select"
-  | "multi-select"
-  | "rating"
-  | "checkbox";
-
-type Field = {
-  id: string;
-  label: string;
-  type: FieldType;
-  required?: boolean;
-  options?: string[];
-  min?: number;
-  max?: number;
-  helpText?: string;
-};
-
-type FormSchema = {
-  fields: Field[];
-};
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { DEFAULT_MAX_FILE_MB } from "@/lib/attachments";
+import { Condition } from "@/lib/conditions";
+import { downloadFile } from "@/lib/download";
+import { MIN_PASSPHRASE_LENGTH, createKeyBackup } from "@/lib/keybackup";
+import { Recipient, generateRsaKeyPair, makeRecipient, parsePublicJwk } from "@/lib/keys";
+import { KeyShareFile, ThresholdPolicy, checkThresholdPolicy, createKeyShares } from "@/lib/keyshares";
+import {
+  Field,
+  FieldType,
+  FormDetails,
+  ValidationRule,
+  fullMatch,
+  hasLength,
+  hasOptions,
+  isDateType,
+  normalizeFormSchema,
+  rulesFor,
+} from "@/lib/schema";
+import { FormSection, orderBySection } from "@/lib/sections";
+import {
+  FormDefinition,
+  SavedTemplate,
+  createFormDefinition,
+  deleteTemplate,
+  listTemplates,
+  templateLibrarySupported,
+} from "@/lib/templates";
+import ConditionEditor from "./ConditionEditor";
+import DefinitionPanel from "./DefinitionPanel";
+import FormPreview from "./FormPreview";
+import ReporterPageEditor from "./ReporterPageEditor";
+import SectionsEditor from "./SectionsEditor";
+import { Update, useHistory } from "./useHistory";
 
 type CreateResponse = {
   formId: string;
   adminLink: string;
   submitLink: string;
+  adminToken: string;
+};
+
+type BuilderState = {
+  details: FormDetails;
+  fields: Field[];
+  sections: FormSection[];
+};
+
+type RecipientDraft = {
+  label: string;
+  publicKey: string;
 };
 
 // --- Templates used as starting points ---
-const TEMPLATES: Record<string, { label: string; description: string; fields: Field[] }> = {
+const TEMPLATES: Record<string, { label: string; description: string; fields: Field[]; sections?: FormSection[] }> = {
   whistleblowing: {
     label: "Whistleblowing Report",
     description: "For reporting harassment, misconduct, ethics issues.",
+    sections: [
+      { id: "about", title: "What happened", description: "Tell us what kind of issue this is." },
+      {
+        id: "details",
+        title: "Details and evidence",
+        description: "Anything you add here is encrypted in your browser before it leaves your device.",
+      },
+      { id: "confirm", title: "Before you send" },
+    ],
     fields: [
-      { id: "title", label: "Title", type: "text", required: true },
+      { id: "title", label: "Title", type: "text", required: true, section: "about" },
       {
         id: "category",
         label: "Category",
         type: "select",
         required: true,
         options: ["Harassment", "Safety issue", "Misconduct", "Other"],
+        section: "about",
+      },
+      {
+        id: "harassmentType",
+        label: "What kind of harassment",
+        type: "select",
+        required: true,
+        options: ["Verbal", "Physical", "Sexual", "Online", "Other"],
+        showIf: [{ field: "category", op: "equals", value: "Harassment" }],
+        section: "about",
+      },
+      {
+        id: "harassmentOngoing",
+        label: "Is it still happening",
+        type: "select",
+        options: ["Yes", "No", "Not sure"],
+        showIf: [{ field: "category", op: "equals", value: "Harassment" }],
+        section: "about",
+      },
+      {
+        id: "hazardLocation",
+        label: "Where is the hazard",
+        type: "text",
+        required: true,
+        showIf: [{ field: "category", op: "equals", value: "Safety issue" }],
+        section: "about",
+      },
+      {
+        id: "injuries",
+        label: "Was anyone hurt",
+        type: "select",
+        options: ["No", "Yes"],
+        showIf: [{ field: "category", op: "equals", value: "Safety issue" }],
+        section: "about",
+      },
+      {
+        id: "injuryDetails",
+        label: "Describe the injuries",
+        type: "textarea",
+        required: true,
+        showIf: [{ field: "injuries", op: "equals", value: "Yes" }],
+        section: "about",
       },
       {
         id: "details",
@@ -52,12 +125,16 @@ const TEMPLATES: Record<string, { label: string; description: string; fields: Fi
         type: "textarea",
         required: true,
         helpText: "Describe what happened with dates, locations and people involved.",
+        section: "details",
       },
       {
-        id: "anonymousConfirm",
-        label: "I confirm this report is anonymous",
-        type: "checkbox",
-        required: true,
+        id: "evidence",
+        label: "Evidence (optional)",
+        type: "file",
+        maxSizeMb: 10,
+        accept: ["image/*", "application/pdf", "audio/*"],
+        helpText: "Screenshots, documents or recordings. Files are encrypted before upload.",
+        section: "details",
       },
       {
         id: "urgency",
@@ -65,6 +142,21 @@ const TEMPLATES: Record<string, { label: string; description: string; fields: Fi
         type: "rating",
         min: 1,
         max: 5,
+        section: "details",
+      },
+      {
+        id: "urgencyReason",
+        label: "Why is this urgent",
+        type: "textarea",
+        requiredIf: [{ field: "urgency", op: "gt", value: "3" }],
+        section: "details",
+      },
+      {
+        id: "anonymousConfirm",
+        label: "I confirm this report is anonymous",
+        type: "checkbox",
+        required: true,
+        section: "confirm",
       },
     ],
   },
@@ -98,8 +190,15 @@ const TEMPLATES: Record<string, { label: string; description: string; fields: Fi
     label: "Safety / Incident Report",
     description: "For accidents or near misses at work or events.",
     fields: [
-      { id: "location", label: "Where did this happen", type: "text", required: true },
-      { id: "time", label: "When did this happen", type: "text", required: true },
+      { id: "location", label: "Where did this happen", type: "location", required: true, allowPosition: true },
+      { id: "time", label: "When did this happen", type: "datetime", required: true, notFuture: true },
+      {
+        id: "reference",
+        label: "Incident reference (if one exists)",
+        type: "text",
+        pattern: "INC-[0-9]{4}",
+        messages: { pattern: "Incident references look like INC-1234." },
+      },
       {
         id: "severity",
         label: "Severity (1 to 5)",
@@ -123,16 +222,57 @@ const TEMPLATES: Record<string, { label: string; description: string; fields: Fi
   },
 };
 
+function cloneField(f: Field): Field {
+  return {
+    ...f,
+    options: f.options ? [...f.options] : undefined,
+    accept: f.accept ? [...f.accept] : undefined,
+    domains: f.domains ? [...f.domains] : undefined,
+    showIf: f.showIf?.map((c) => ({ ...c })),
+    requiredIf: f.requiredIf?.map((c) => ({ ...c })),
+    messages: f.messages ? { ...f.messages } : undefined,
+  };
+}
+
 function cloneTemplateFields(templateKey: string): Field[] {
-  return TEMPLATES[templateKey].fields.map((f) => ({ ...f, options: f.options ? [...f.options] : undefined }));
+  return TEMPLATES[templateKey].fields.map(cloneField);
 }
 
-function slugFromLabel(label: string, index: number) {
-  const base = label
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, "_")
-    .replace(/^_+|_+$/g, "");
-  return base || `field_${index + 1}`;
+function uniqueFieldId(base: string, fields: Field[]) {
+  let id = base;
+  for (let n = 2; fields.some((f) => f.id === id); n++) id = `${base}_${n}`;
+  return id;
+}
+
+const RULE_LABELS: Record<ValidationRule, string> = {
+  required: "Missing",
+  format: "Wrong format",
+  range: "Out of range",
+  length: "Length",
+  pattern: "Pattern",
+  selections: "Too many",
+};
+
+const RULE_HINTS: Record<ValidationRule, string> = {
+  required: "Please answer this question.",
+  format: "Shown when the answer is not a valid value for this type",
+  range: "Shown when the answer is below the minimum or above the maximum",
+  length: "Shown when the answer is too short or too long",
+  pattern: "Example: Use the form INC-1234.",
+  selections: "Shown when too many options are picked",
+};
+
+function patternCompiles(pattern: string) {
+  try {
+    fullMatch(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function cloneTemplateSections(templateKey: string): FormSection[] {
+  return (TEMPLATES[templateKey].sections || []).map((s) => ({ ...s }));
 }
 
 export default function CreateFormPage() {
@@ -141,23 +281,38 @@ export default function CreateFormPage() {
   const [privateKey, setPrivateKey] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
 
-  const [selectedTemplate, setSelectedTemplate] = useState<keyof typeof TEMPLATES>("whistleblowing");
-  const [fields, setFields] = useState<Field[]>(() => cloneTemplateFields("whistleblowing"));
+  const [passphrase, setPassphrase] = useState("");
+  const [passphraseConfirm, setPassphraseConfirm] = useState("");
+  const [backupError, setBackupError] = useState<string | null>(null);
+  const [backupSaving, setBackupSaving] = useState(false);
+  const [backupSaved, setBackupSaved] = useState(false);
 
-  async function generateKeyPair() {
-    const keyPair = await window.crypto.subtle.generateKey(
-      {
-        name: "RSA-OAEP",
-        modulusLength: 2048,
-        publicExponent: new Uint8Array([1, 0, 1]),
-        hash: "SHA-256",
-      },
-      true,
-      ["encrypt", "decrypt"]
-    );
+  // a built-in key, "saved:<id>" for a local template, or "custom" after an import
+  const [selectedTemplate, setSelectedTemplate] = useState("whistleblowing");
+  const [savedTemplates, setSavedTemplates] = useState<SavedTemplate[]>([]);
+  const [libraryError, setLibraryError] = useState<string | null>(null);
+  const [formTitle, setFormTitle] = useState(TEMPLATES.whistleblowing.label);
+  const [formDescription, setFormDescription] = useState(TEMPLATES.whistleblowing.description);
+  // Every question and page edit goes through the undo history
+  const builder = useHistory<BuilderState>(() => ({
+    details: { title: TEMPLATES.whistleblowing.label },
+    fields: cloneTemplateFields("whistleblowing"),
+    sections: cloneTemplateSections("whistleblowing"),
+  }));
+  const { details, fields, sections } = builder.state;
+  const { undo, redo } = builder;
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [announcement, setAnnouncement] = useState("");
+  const [previewing, setPreviewing] = useState(false);
+  const [extraRecipients, setExtraRecipients] = useState<RecipientDraft[]>([]);
+  const [custody, setCustody] = useState<"single" | "threshold">("single");
+  const [threshold, setThreshold] = useState<ThresholdPolicy>({ k: 2, n: 3 });
+  const [shares, setShares] = useState<KeyShareFile[] | null>(null);
+  const [sharesSaved, setSharesSaved] = useState<number[]>([]);
 
-    const publicJwk = await window.crypto.subtle.exportKey("jwk", keyPair.publicKey);
-    const privateJwk = await window.crypto.subtle.exportKey("jwk", keyPair.privateKey);
+  async function generateKeyPair() {
+    const { publicJwk, privateJwk } = await generateRsaKeyPair();
 
     return {
       publicKey: JSON.stringify(publicJwk),
@@ -165,18 +320,114 @@ export default function CreateFormPage() {
     };
   }
 
+  // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z (or Ctrl+Y), except while typing where the browser handles undo
+  useEffect(() => {
+    function onKey(e: KeyboardEvent) {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) undo();
+      else if ((key === "z" && e.shiftKey) || key === "y") redo();
+      else return;
+      e.preventDefault();
+    }
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [undo, redo]);
+
+  function setFields(update: Update<Field[]>, coalesceKey?: string) {
+    builder.set(
+      (prev) => ({ ...prev, fields: typeof update === "function" ? update(prev.fields) : update }),
+      coalesceKey
+    );
+  }
+
+  function setSections(next: FormSection[]) {
+    builder.set((prev) => ({ ...prev, sections: next }), "sections");
+  }
+
+  function setDetails(patch: FormDetails) {
+    builder.set(
+      (prev) => ({ ...prev, details: { ...prev.details, ...patch } }),
+      `details:${Object.keys(patch).join(",")}`
+    );
+  }
+
+  useEffect(() => {
+    if (!templateLibrarySupported()) return;
+    listTemplates()
+      .then(setSavedTemplates)
+      .catch(() => setLibraryError("Could not open your saved templates"));
+  }, []);
+
+  const savedSelected = savedTemplates.find((t) => `saved:${t.id}` === selectedTemplate);
+
+  function applyDefinition(definition: FormDefinition) {
+    const { title, intro, thankYou, branding } = definition.schema;
+    builder.set({
+      details: { title, intro, thankYou, branding: branding && { ...branding } },
+      fields: definition.schema.fields.map(cloneField),
+      sections: (definition.schema.sections || []).map((s) => ({ ...s })),
+    });
+    setCustody(definition.settings.custody);
+    if (definition.settings.threshold) setThreshold({ ...definition.settings.threshold });
+    setFormTitle(definition.title);
+    setFormDescription(definition.description);
+  }
+
   function handleTemplateChange(key: string) {
+    const saved = savedTemplates.find((t) => `saved:${t.id}` === key);
+    if (saved) {
+      setSelectedTemplate(key);
+      applyDefinition(saved.definition);
+      return;
+    }
     if (!(key in TEMPLATES)) return;
-    setSelectedTemplate(key as keyof typeof TEMPLATES);
-    setFields(cloneTemplateFields(key));
+    setSelectedTemplate(key);
+    builder.set({
+      details: { title: TEMPLATES[key].label },
+      fields: cloneTemplateFields(key),
+      sections: cloneTemplateSections(key),
+    });
+    setFormTitle(TEMPLATES[key].label);
+    setFormDescription(TEMPLATES[key].description);
+  }
+
+  function buildDefinition() {
+    return createFormDefinition(formTitle, formDescription, normalizeFormSchema({ ...details, fields, sections }), {
+      custody,
+      threshold,
+    });
+  }
+
+  async function removeSavedTemplate(template: SavedTemplate) {
+    if (!window.confirm(`Delete the template "${template.definition.title}" from this device?`)) return;
+    try {
+      await deleteTemplate(template.id);
+      setSavedTemplates((prev) => prev.filter((t) => t.id !== template.id));
+      // the questions stay in the builder, they just no longer match a saved template
+      setSelectedTemplate("custom");
+      setLibraryError(null);
+    } catch (err) {
+      setLibraryError(err instanceof Error ? err.message : "Could not delete the template");
+    }
   }
 
   function updateField(index: number, patch: Partial<Field>) {
     setFields((prev) => {
-      const copy = [...prev];
-      copy[index] = { ...copy[index], ...patch };
-      return copy;
-    });
+      const oldId = prev[index].id;
+      const renamed = patch.id !== undefined && patch.id !== oldId;
+      const follow = (conds?: Condition[]) =>
+        conds?.map((c) => (c.field === oldId ? { ...c, field: patch.id as string } : c));
+
+      return prev.map((f, i) => {
+        if (i === index) return { ...f, ...patch };
+        if (!renamed) return f;
+        // keep rules on later questions pointing at this one
+        return { ...f, showIf: follow(f.showIf), requiredIf: follow(f.requiredIf) };
+      });
+    }, `${index}:${Object.keys(patch).join(",")}`);
   }
 
   function removeField(index: number) {
@@ -187,7 +438,7 @@ export default function CreateFormPage() {
     setFields((prev) => [
       ...prev,
       {
-        id: `field_${prev.length + 1}`,
+        id: uniqueFieldId(`field_${prev.length + 1}`, prev),
         label: "New question",
         type: "text",
         required: false,
@@ -195,54 +446,168 @@ export default function CreateFormPage() {
     ]);
   }
 
+  function duplicateField(index: number) {
+    setFields((prev) => {
+      const source = prev[index];
+      const copy: Field = {
+        ...cloneField(source),
+        id: uniqueFieldId(`${source.id || "field"}_copy`, prev),
+        label: `${source.label} (copy)`,
+      };
+      return [...prev.slice(0, index + 1), copy, ...prev.slice(index + 1)];
+    });
+  }
+
+  // Questions a rule on fields[index] may depend on: those above it once the
+  // form is ordered by page, as on create
+  function earlierFields(index: number) {
+    const ordered = orderBySection(fields, sections);
+    return ordered.slice(0, ordered.indexOf(fields[index]));
+  }
+
+  function hasBrokenRule(index: number) {
+    const earlier = earlierFields(index).map((f) => f.id);
+    const { showIf, requiredIf, required } = fields[index];
+    // a required question has no use for a required-if rule, create drops it
+    return [...(showIf || []), ...((!required && requiredIf) || [])].some((c) => !earlier.includes(c.field));
+  }
+
+  function moveField(from: number, to: number) {
+    if (to < 0 || to >= fields.length || from === to) return;
+    setFields((prev) => {
+      const copy = [...prev];
+      const [moved] = copy.splice(from, 1);
+      copy.splice(to, 0, moved);
+      return copy;
+    });
+    setAnnouncement(`Moved "${fields[from].label}" to position ${to + 1} of ${fields.length}`);
+  }
+
+  function handleMoveKey(e: React.KeyboardEvent, index: number) {
+    let to: number;
+    if (e.key === "ArrowUp") to = index - 1;
+    else if (e.key === "ArrowDown") to = index + 1;
+    else if (e.key === "Home") to = 0;
+    else if (e.key === "End") to = fields.length - 1;
+    else return;
+    e.preventDefault();
+    if (to < 0 || to >= fields.length) return;
+    moveField(index, to);
+    // keep focus on the handle as it moves
+    window.setTimeout(() => document.getElementById(`move-handle-${to}`)?.focus(), 0);
+  }
+
+  function handleDrop(index: number) {
+    if (dragIndex !== null) moveField(dragIndex, index);
+    setDragIndex(null);
+    setDropIndex(null);
+  }
+
+  function downloadShare(share: KeyShareFile) {
+    downloadFile(
+      `cipherwhisp-share-${share.index}-of-${share.total}-${share.formId}.json`,
+      JSON.stringify(share, null, 2)
+    );
+    setSharesSaved((prev) => (prev.includes(share.index) ? prev : [...prev, share.index]));
+  }
+
+  function updateRecipient(index: number, patch: Partial<RecipientDraft>) {
+    setExtraRecipients((prev) => prev.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+  }
+
+  async function buildRecipients(ownerPublicKey: string): Promise<Recipient[]> {
+    const list = [await makeRecipient("Form owner", JSON.parse(ownerPublicKey))];
+    for (const [index, draft] of extraRecipients.entries()) {
+      const label = draft.label.trim() || `Recipient ${index + 2}`;
+      let jwk: JsonWebKey;
+      try {
+        jwk = parsePublicJwk(draft.publicKey);
+      } catch (err) {
+        throw new Error(`${label}: ${err instanceof Error ? err.message : "invalid public key"}`);
+      }
+      const recipient = await makeRecipient(label, jwk);
+      if (list.some((r) => r.id === recipient.id)) {
+        throw new Error(`${label}: this key is already a recipient.`);
+      }
+      list.push(recipient);
+    }
+    return list;
+  }
+
+  async function downloadKeyBackup() {
+    if (!result || !privateKey) return;
+    try {
+      setBackupError(null);
+      if (passphrase !== passphraseConfirm) {
+        throw new Error("Passphrases do not match.");
+      }
+      setBackupSaving(true);
+      const backup = await createKeyBackup(JSON.parse(privateKey), passphrase, result.formId);
+      downloadFile(`cipherwhisp-key-${result.formId}.json`, JSON.stringify(backup, null, 2));
+      setBackupSaved(true);
+    } catch (err) {
+      setBackupError(err instanceof Error ? err.message : "Could not create key backup");
+    } finally {
+      setBackupSaving(false);
+    }
+  }
+
   async function createForm() {
     try {
       setLoading(true);
       setError(null);
       setResult(null);
       setPrivateKey(null);
+      setPassphrase("");
+      setPassphraseConfirm("");
+      setBackupError(null);
+      setBackupSaved(false);
+      setShares(null);
+      setSharesSaved([]);
 
       if (!fields.length) {
         throw new Error("You need at least one question in the form.");
       }
 
-      // Generate keys in browser
-      const { publicKey, privateKey } = await generateKeyPair();
+      if (custody === "threshold") {
+        const problem = checkThresholdPolicy(threshold);
+        if (problem) throw new Error(problem);
+      }
 
-      // Normalize ids, options and numeric bounds
-      const normalizedFields: Field[] = fields.map((f, index) => {
-        const id = f.id && f.id.trim() ? f.id.trim() : slugFromLabel(f.label, index);
-
-        let options: string[] | undefined = undefined;
-        if (f.type === "select" || f.type === "multi-select") {
-          options = (f.options || []).map((o) => o.trim()).filter(Boolean);
-        }
-
-        const min = typeof f.min === "number" ? f.min : undefined;
-        const max = typeof f.max === "number" ? f.max : undefined;
-
-        return {
-          ...f,
-          id,
-          options,
-          min,
-          max,
-        };
+      // Trim, fill defaults and validate before any keys are made
+      const schema = normalizeFormSchema({
+        ...details,
+        fields,
+        sections,
+        threshold: custody === "threshold" ? threshold : undefined,
       });
 
-      const schema: FormSchema = { fields: normalizedFields };
+      // Generate keys in browser
+      const { publicKey, privateKey } = await generateKeyPair();
+      // Split before the form exists, so a failed split leaves nothing published
+      const unassigned = custody === "threshold" ? await createKeyShares(JSON.parse(privateKey), threshold) : null;
+      // Any extra recipient could open reports alone, which defeats k-of-n
+      const recipients =
+        custody === "threshold"
+          ? [await makeRecipient("Custodians", JSON.parse(publicKey))]
+          : await buildRecipients(publicKey);
 
       const res = await fetch("http://localhost:8000/create-form", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ publicKey, schema }),
+        body: JSON.stringify({ publicKey, schema, recipients }),
       });
 
       if (!res.ok) throw new Error(`Backend error ${res.status}`);
       const data = (await res.json()) as CreateResponse;
 
       setResult(data);
-      setPrivateKey(privateKey);
+      if (unassigned) {
+        // The combined key is never shown or kept, only the custodian shares
+        setShares(unassigned.map((share) => ({ ...share, formId: data.formId })));
+      } else {
+        setPrivateKey(privateKey);
+      }
     } catch (err: any) {
       setError(err.message || "Error creating form");
     } finally {
@@ -268,35 +633,156 @@ export default function CreateFormPage() {
           onChange={(e) => handleTemplateChange(e.target.value)}
           className="w-full rounded-md border border-slate-700 bg-black px-3 py-2 text-sm outline-none focus:border-cyan-400 focus:ring-1 focus:ring-cyan-500"
         >
-          {Object.entries(TEMPLATES).map(([key, t]) => (
-            <option key={key} value={key}>
-              {t.label}
-            </option>
-          ))}
+          <optgroup label="Built-in">
+            {Object.entries(TEMPLATES).map(([key, t]) => (
+              <option key={key} value={key}>
+                {t.label}
+              </option>
+            ))}
+          </optgroup>
+          {savedTemplates.length > 0 && (
+            <optgroup label="My templates">
+              {savedTemplates.map((t) => (
+                <option key={t.id} value={`saved:${t.id}`}>
+                  {t.definition.title}
+                </option>
+              ))}
+            </optgroup>
+          )}
+          {selectedTemplate === "custom" && <option value="custom">Custom form</option>}
         </select>
-        <p className="text-xs text-gray-400">{TEMPLATES[selectedTemplate].description}</p>
+        <div className="flex items-start justify-between gap-3">
+          <p className="text-xs text-gray-400">
+            {selectedTemplate in TEMPLATES
+              ? TEMPLATES[selectedTemplate].description
+              : savedSelected
+                ? savedSelected.definition.description ||
+                  `Saved ${new Date(savedSelected.savedAt).toLocaleDateString()}`
+                : "Imported from a file or no longer saved as a template."}
+          </p>
+          {savedSelected && (
+            <button
+              type="button"
+              onClick={() => removeSavedTemplate(savedSelected)}
+              className="shrink-0 text-xs text-red-400 hover:text-red-300"
+            >
+              Delete template
+            </button>
+          )}
+        </div>
+        {libraryError && <p className="text-xs text-red-500">{libraryError}</p>}
       </section>
 
+      <DefinitionPanel
+        title={formTitle}
+        description={formDescription}
+        onTitleChange={setFormTitle}
+        onDescriptionChange={setFormDescription}
+        buildDefinition={buildDefinition}
+        onImport={(definition) => {
+          applyDefinition(definition);
+          setSelectedTemplate("custom");
+        }}
+        onSaved={(template) => {
+          setSavedTemplates((prev) =>
+            [...prev, template].sort((a, b) => a.definition.title.localeCompare(b.definition.title))
+          );
+          setSelectedTemplate(`saved:${template.id}`);
+        }}
+      />
+
+      <ReporterPageEditor details={details} onChange={setDetails} />
+
+      <SectionsEditor sections={sections} onChange={setSections} />
+
       {/* Field editor */}
       <section className="mb-8">
         <div className="flex items-center justify-between mb-3">
           <h2 className="text-lg font-semibold">Form questions</h2>
-          <button
-            type="button"
-            onClick={addField}
-            className="text-xs px-3 py-1.5 rounded-md border border-slate-600 hover:bg-slate-800"
-          >
-            + Add question
-          </button>
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => setPreviewing((p) => !p)}
+              aria-pressed={previewing}
+              className={`text-xs px-3 py-1.5 rounded-md border hover:bg-slate-800 ${
+                previewing ? "border-cyan-500 text-cyan-300" : "border-slate-600"
+              }`}
+            >
+              {previewing ? "Back to editing" : "Preview"}
+            </button>
+            <button
+              type="button"
+              onClick={undo}
+              disabled={!builder.canUndo}
+              title="Undo (Ctrl+Z)"
+              className="text-xs px-3 py-1.5 rounded-md border border-slate-600 hover:bg-slate-800 disabled:opacity-40"
+            >
+              Undo
+            </button>
+            <button
+              type="button"
+              onClick={redo}
+              disabled={!builder.canRedo}
+              title="Redo (Ctrl+Shift+Z)"
+              className="text-xs px-3 py-1.5 rounded-md border border-slate-600 hover:bg-slate-800 disabled:opacity-40"
+            >
+              Redo
+            </button>
+            {!previewing && (
+              <button
+                type="button"
+                onClick={addField}
+                className="text-xs px-3 py-1.5 rounded-md border border-slate-600 hover:bg-slate-800"
+              >
+                + Add question
+              </button>
+            )}
+          </div>
         </div>
+        <p className="sr-only" aria-live="polite">
+          {announcement}
+        </p>
 
-        <div className="space-y-4">
+        {previewing && <FormPreview details={details} fields={fields} sections={sections} />}
+
+        <div className={previewing ? "hidden" : "space-y-4"}>
           {fields.map((field, index) => (
             <div
               key={field.id || index}
-              className="border border-slate-700 rounded-lg p-4 bg-black/60 flex flex-col gap-3"
+              onDragOver={(e) => {
+                if (dragIndex === null) return;
+                e.preventDefault();
+                setDropIndex(index);
+              }}
+              onDrop={(e) => {
+                e.preventDefault();
+                handleDrop(index);
+              }}
+              className={`border rounded-lg p-4 bg-black/60 flex flex-col gap-3 ${
+                dropIndex === index && dragIndex !== index ? "border-cyan-500" : "border-slate-700"
+              } ${dragIndex === index ? "opacity-50" : ""}`}
             >
               <div className="flex items-center gap-3">
+                <button
+                  type="button"
+                  id={`move-handle-${index}`}
+                  draggable
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = "move";
+                    e.dataTransfer.setData("text/plain", String(index));
+                    setDragIndex(index);
+                  }}
+                  onDragEnd={() => {
+                    setDragIndex(null);
+                    setDropIndex(null);
+                  }}
+                  onKeyDown={(e) => handleMoveKey(e, index)}
+                  aria-label={`Question ${index + 1} of ${fields.length}. Drag, or use the arrow keys, to reorder.`}
+                  title="Drag or use arrow keys to reorder"
+                  className="cursor-grab px-1 text-gray-500 hover:text-gray-300 focus:text-cyan-300 focus:outline-none"
+                >
+                  ⋮⋮
+                </button>
                 <input
                   value={field.label}
                   onChange={(e) => updateField(index, { label: e.target.value })}
@@ -313,8 +799,15 @@ export default function CreateFormPage() {
                   <option value="number">Number</option>
                   <option value="rating">Rating (1 to 5 or custom)</option>
                   <option value="select">Single choice</option>
+                  <option value="radio">Single choice (buttons)</option>
                   <option value="multi-select">Multiple choice</option>
                   <option value="checkbox">Checkbox</option>
+                  <option value="date">Date</option>
+                  <option value="datetime">Date and time</option>
+                  <option value="email">Email</option>
+                  <option value="url">Web address</option>
+                  <option value="location">Location (approximate)</option>
+                  <option value="file">File upload</option>
                 </select>
               </div>
 
@@ -329,6 +822,23 @@ export default function CreateFormPage() {
                   Required
                 </label>
 
+                {sections.length > 0 && (
+                  <div className="flex items-center gap-2">
+                    <span className="text-gray-400">Page</span>
+                    <select
+                      value={sections.some((sec) => sec.id === field.section) ? field.section : sections[0].id}
+                      onChange={(e) => updateField(index, { section: e.target.value })}
+                      className="w-40 rounded border border-slate-600 bg-black px-2 py-1 outline-none focus:border-cyan-400 focus:ring-1 focus:ring-cyan-500"
+                    >
+                      {sections.map((sec, i) => (
+                        <option key={sec.id} value={sec.id}>
+                          {i + 1}. {sec.title || "Untitled"}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
                 <div className="flex items-center gap-2">
                   <span className="text-gray-400">Field id:</span>
                   <input
@@ -365,7 +875,7 @@ export default function CreateFormPage() {
                   </>
                 )}
 
-                {(field.type === "select" || field.type === "multi-select") && (
+                {hasOptions(field.type) && (
                   <div className="flex items-center gap-2 flex-1 min-w-[220px]">
                     <span className="text-gray-400">Options</span>
                     <input
@@ -383,6 +893,162 @@ export default function CreateFormPage() {
                     />
                   </div>
                 )}
+
+                {field.type === "file" && (
+                  <>
+                    <div className="flex items-center gap-1">
+                      <span className="text-gray-400">Max MB</span>
+                      <input
+                        type="number"
+                        min={1}
+                        value={field.maxSizeMb ?? DEFAULT_MAX_FILE_MB}
+                        onChange={(e) =>
+                          updateField(index, {
+                            maxSizeMb: e.target.value === "" ? undefined : Number(e.target.value),
+                          })
+                        }
+                        className="w-20 rounded border border-slate-600 bg-black px-2 py-1 outline-none focus:border-cyan-400 focus:ring-1 focus:ring-cyan-500"
+                      />
+                    </div>
+                    <div className="flex items-center gap-2 flex-1 min-w-[220px]">
+                      <span className="text-gray-400">Allowed types</span>
+                      <input
+                        value={(field.accept || []).join(", ")}
+                        onChange={(e) =>
+                          updateField(index, {
+                            accept: e.target.value.split(",").map((x) => x.trim()),
+                          })
+                        }
+                        placeholder="Any. Example: image/*, application/pdf, audio/*"
+                        className="flex-1 rounded border border-slate-600 bg-black px-2 py-1 outline-none focus:border-cyan-400 focus:ring-1 focus:ring-cyan-500"
+                      />
+                    </div>
+                  </>
+                )}
+
+                {isDateType(field.type) && (
+                  <>
+                    <div className="flex items-center gap-1">
+                      <span className="text-gray-400">Earliest</span>
+                      <input
+                        type={field.type === "date" ? "date" : "datetime-local"}
+                        value={field.earliest ?? ""}
+                        onChange={(e) => updateField(index, { earliest: e.target.value || undefined })}
+                        className="rounded border border-slate-600 bg-black px-2 py-1 outline-none focus:border-cyan-400 focus:ring-1 focus:ring-cyan-500"
+                      />
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <span className="text-gray-400">Latest</span>
+                      <input
+                        type={field.type === "date" ? "date" : "datetime-local"}
+                        value={field.latest ?? ""}
+                        onChange={(e) => updateField(index, { latest: e.target.value || undefined })}
+                        className="rounded border border-slate-600 bg-black px-2 py-1 outline-none focus:border-cyan-400 focus:ring-1 focus:ring-cyan-500"
+                      />
+                    </div>
+                    <label className="inline-flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={!!field.notFuture}
+                        onChange={(e) => updateField(index, { notFuture: e.target.checked })}
+                        className="rounded border-slate-500 bg-black"
+                      />
+                      No future dates
+                    </label>
+                  </>
+                )}
+
+                {field.type === "email" && (
+                  <div className="flex items-center gap-2 flex-1 min-w-[220px]">
+                    <span className="text-gray-400">Allowed domains</span>
+                    <input
+                      value={(field.domains || []).join(", ")}
+                      onChange={(e) => updateField(index, { domains: e.target.value.split(",").map((x) => x.trim()) })}
+                      placeholder="Any. Example: example.org"
+                      className="flex-1 rounded border border-slate-600 bg-black px-2 py-1 outline-none focus:border-cyan-400 focus:ring-1 focus:ring-cyan-500"
+                    />
+                  </div>
+                )}
+
+                {field.type === "url" && (
+                  <label className="inline-flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={!!field.httpsOnly}
+                      onChange={(e) => updateField(index, { httpsOnly: e.target.checked })}
+                      className="rounded border-slate-500 bg-black"
+                    />
+                    Only https links
+                  </label>
+                )}
+
+                {field.type === "location" && (
+                  <label className="inline-flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={!!field.allowPosition}
+                      onChange={(e) => updateField(index, { allowPosition: e.target.checked })}
+                      className="rounded border-slate-500 bg-black"
+                    />
+                    Offer an approximate position from the browser (rounded to about 10 km)
+                  </label>
+                )}
+
+                {hasLength(field.type) && (
+                  <>
+                    <div className="flex items-center gap-1">
+                      <span className="text-gray-400">Length</span>
+                      <input
+                        type="number"
+                        min={0}
+                        value={field.minLength ?? ""}
+                        onChange={(e) =>
+                          updateField(index, { minLength: e.target.value === "" ? undefined : Number(e.target.value) })
+                        }
+                        placeholder="min"
+                        className="w-16 rounded border border-slate-600 bg-black px-2 py-1 outline-none focus:border-cyan-400 focus:ring-1 focus:ring-cyan-500"
+                      />
+                      <span className="text-gray-500">to</span>
+                      <input
+                        type="number"
+                        min={0}
+                        value={field.maxLength ?? ""}
+                        onChange={(e) =>
+                          updateField(index, { maxLength: e.target.value === "" ? undefined : Number(e.target.value) })
+                        }
+                        placeholder="max"
+                        className="w-16 rounded border border-slate-600 bg-black px-2 py-1 outline-none focus:border-cyan-400 focus:ring-1 focus:ring-cyan-500"
+                      />
+                    </div>
+                    <div className="flex items-center gap-2 flex-1 min-w-[220px]">
+                      <span className="text-gray-400">Pattern</span>
+                      <input
+                        value={field.pattern ?? ""}
+                        onChange={(e) => updateField(index, { pattern: e.target.value || undefined })}
+                        placeholder="Regular expression, e.g. INC-[0-9]{4}"
+                        className="flex-1 font-mono rounded border border-slate-600 bg-black px-2 py-1 outline-none focus:border-cyan-400 focus:ring-1 focus:ring-cyan-500"
+                      />
+                      {field.pattern && !patternCompiles(field.pattern) && (
+                        <span className="text-red-400">Invalid pattern</span>
+                      )}
+                    </div>
+                  </>
+                )}
+
+                {field.type === "multi-select" && (
+                  <div className="flex items-center gap-1">
+                    <span className="text-gray-400">Max selections</span>
+                    <input
+                      type="number"
+                      min={1}
+                      value={field.maxSelections ?? ""}
+                      onChange={(e) =>
+                        updateField(index, { maxSelections: e.target.value === "" ? undefined : Number(e.target.value) })
+                      }
+                      className="w-16 rounded border border-slate-600 bg-black px-2 py-1 outline-none focus:border-cyan-400 focus:ring-1 focus:ring-cyan-500"
+                    />
+                  </div>
+                )}
               </div>
 
               <div className="flex flex-col gap-2 text-xs">
@@ -397,8 +1063,61 @@ export default function CreateFormPage() {
                 </label>
               </div>
 
-              {fields.length > 1 && (
-                <div className="flex justify-end">
+              <details className="text-xs border border-slate-800 rounded-md p-3">
+                <summary className="cursor-pointer text-gray-300">
+                  Logic
+                  {field.showIf?.length ? " · conditional" : ""}
+                  {field.requiredIf?.length ? " · required if" : ""}
+                  {hasBrokenRule(index) && <span className="text-red-400"> · rule needs fixing</span>}
+                </summary>
+                <div className="mt-3 space-y-4">
+                  <ConditionEditor
+                    title="Show this question only if"
+                    conditions={field.showIf || []}
+                    candidates={earlierFields(index)}
+                    onChange={(showIf) => updateField(index, { showIf })}
+                  />
+                  {!field.required && (
+                    <ConditionEditor
+                      title="Require an answer only if"
+                      conditions={field.requiredIf || []}
+                      candidates={earlierFields(index)}
+                      onChange={(requiredIf) => updateField(index, { requiredIf })}
+                    />
+                  )}
+                </div>
+              </details>
+
+              <details className="text-xs border border-slate-800 rounded-md p-3">
+                <summary className="cursor-pointer text-gray-300">
+                  Error messages
+                  {field.messages && Object.values(field.messages).some(Boolean) ? " · custom" : ""}
+                </summary>
+                <div className="mt-3 space-y-2">
+                  <p className="text-gray-500">Leave empty to use the built-in message.</p>
+                  {rulesFor(field.type).map((rule) => (
+                    <label key={rule} className="flex items-center gap-3">
+                      <span className="w-24 text-gray-400">{RULE_LABELS[rule]}</span>
+                      <input
+                        value={field.messages?.[rule] ?? ""}
+                        onChange={(e) => updateField(index, { messages: { ...field.messages, [rule]: e.target.value } })}
+                        placeholder={RULE_HINTS[rule]}
+                        className="flex-1 rounded border border-slate-600 bg-black px-2 py-1 outline-none focus:border-cyan-400 focus:ring-1 focus:ring-cyan-500"
+                      />
+                    </label>
+                  ))}
+                </div>
+              </details>
+
+              <div className="flex justify-end gap-4">
+                <button
+                  type="button"
+                  onClick={() => duplicateField(index)}
+                  className="text-xs text-gray-300 hover:text-white"
+                >
+                  Duplicate
+                </button>
+                {fields.length > 1 && (
                   <button
                     type="button"
                     onClick={() => removeField(index)}
@@ -406,13 +1125,111 @@ export default function CreateFormPage() {
                   >
                     Remove question
                   </button>
-                </div>
-              )}
+                )}
+              </div>
             </div>
           ))}
         </div>
       </section>
 
+      {/* Key custody */}
+      <section className="mb-8 space-y-3">
+        <h2 className="text-lg font-semibold">Key custody</h2>
+        <div className="flex flex-col gap-2 text-sm">
+          <label className="inline-flex items-center gap-2">
+            <input
+              type="radio"
+              name="custody"
+              checked={custody === "single"}
+              onChange={() => setCustody("single")}
+            />
+            Single owner key
+          </label>
+          <label className="inline-flex items-center gap-2">
+            <input
+              type="radio"
+              name="custody"
+              checked={custody === "threshold"}
+              onChange={() => setCustody("threshold")}
+            />
+            Split between custodians (no single person can open a report)
+          </label>
+        </div>
+
+        {custody === "threshold" && (
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <span className="text-gray-400">Require</span>
+            <input
+              type="number"
+              min={2}
+              value={threshold.k}
+              onChange={(e) => setThreshold((t) => ({ ...t, k: Number(e.target.value) }))}
+              className="w-16 rounded border border-slate-600 bg-black px-2 py-1 outline-none focus:border-cyan-400 focus:ring-1 focus:ring-cyan-500"
+            />
+            <span className="text-gray-400">of</span>
+            <input
+              type="number"
+              min={2}
+              value={threshold.n}
+              onChange={(e) => setThreshold((t) => ({ ...t, n: Number(e.target.value) }))}
+              className="w-16 rounded border border-slate-600 bg-black px-2 py-1 outline-none focus:border-cyan-400 focus:ring-1 focus:ring-cyan-500"
+            />
+            <span className="text-gray-400">custodian shares to unlock the inbox.</span>
+          </div>
+        )}
+      </section>
+
+      {/* Recipients */}
+      {custody === "single" && (
+        <section className="mb-8 space-y-3">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold">Recipients</h2>
+            <button
+              type="button"
+              onClick={() => setExtraRecipients((prev) => [...prev, { label: "", publicKey: "" }])}
+              className="text-xs px-3 py-1.5 rounded-md border border-slate-600 hover:bg-slate-800"
+            >
+              + Add recipient
+            </button>
+          </div>
+          <p className="text-xs text-gray-400">
+            A key for you is generated when the form is created. Add the public keys of other admins who should be able
+            to read every report on their own. They can{" "}
+            <Link href="/recipient-key" className="text-cyan-400 hover:text-cyan-300">
+              create a recipient key
+            </Link>{" "}
+            and send you the public part.
+          </p>
+
+          {extraRecipients.map((r, index) => (
+            <div key={index} className="border border-slate-700 rounded-lg p-3 bg-black/60 flex flex-col gap-2 text-xs">
+              <div className="flex items-center gap-2">
+                <input
+                  value={r.label}
+                  onChange={(e) => updateRecipient(index, { label: e.target.value })}
+                  placeholder="Name or role, e.g. Ethics committee chair"
+                  className="flex-1 rounded border border-slate-600 bg-black px-2 py-1 outline-none focus:border-cyan-400 focus:ring-1 focus:ring-cyan-500"
+                />
+                <button
+                  type="button"
+                  onClick={() => setExtraRecipients((prev) => prev.filter((_, i) => i !== index))}
+                  className="text-red-400 hover:text-red-300"
+                >
+                  Remove
+                </button>
+              </div>
+              <textarea
+                value={r.publicKey}
+                onChange={(e) => updateRecipient(index, { publicKey: e.target.value })}
+                placeholder='Public key JWK: {"kty":"RSA","n":"...","e":"AQAB"}'
+                rows={3}
+                className="w-full rounded border border-slate-600 bg-black px-2 py-1 font-mono outline-none focus:border-cyan-400 focus:ring-1 focus:ring-cyan-500"
+              />
+            </div>
+          ))}
+        </section>
+      )}
+
       {/* Create button and result */}
       <section className="space-y-4">
         <button
@@ -425,6 +1242,46 @@ export default function CreateFormPage() {
 
         {error && <p className="text-red-500 text-sm">{error}</p>}
 
+        {result && shares && (
+          <div className="mt-4 border border-gray-700 rounded-lg p-4 space-y-3 text-sm">
+            <h2 className="text-base font-semibold mb-1">Form created</h2>
+
+            <p className="font-mono text-xs break-all">Form ID: {result.formId}</p>
+            <p className="font-mono text-xs break-all">
+              Submit: http://localhost:3000{result.submitLink}
+            </p>
+            <p className="font-mono text-xs break-all">
+              Admin: http://localhost:3000{result.adminLink}
+            </p>
+            <p className="font-mono text-xs break-all">Case token: {result.adminToken}</p>
+            <p className="text-xs text-gray-400">
+              Give the case token to the custodians so they can edit case records. It cannot change who reads reports:
+              the recipients of a split-key form are fixed.
+            </p>
+
+            <div className="space-y-2 pt-2">
+              <p className="text-sm font-medium">Hand out the custodian shares now</p>
+              <p className="text-xs text-gray-400">
+                Give each file to a different custodian. Any {shares[0].threshold} of them can open the inbox together;
+                fewer reveal nothing about the key. The full key is not stored anywhere and these shares cannot be
+                downloaded again after you leave this page.
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {shares.map((share) => (
+                  <button
+                    key={share.index}
+                    onClick={() => downloadShare(share)}
+                    className="px-3 py-1.5 rounded-md border border-gray-600 hover:bg-gray-800 text-xs"
+                  >
+                    {sharesSaved.includes(share.index) ? "✓ " : ""}Share {share.index} of {share.total}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500">Key fingerprint: {shares[0].fingerprint}</p>
+            </div>
+          </div>
+        )}
+
         {result && privateKey && (
           <div className="mt-4 border border-gray-700 rounded-lg p-4 space-y-3 text-sm">
             <h2 className="text-base font-semibold mb-1">Form created</h2>
@@ -436,15 +1293,57 @@ export default function CreateFormPage() {
             <p className="font-mono text-xs break-all">
               Admin: http://localhost:3000{result.adminLink}
             </p>
+            <p className="font-mono text-xs break-all">Admin token: {result.adminToken}</p>
+            <p className="text-xs text-gray-400">
+              Keep the admin token with the key backup. It is needed to edit case records and to add or remove recipients later.
+            </p>
 
-            <div>
-              <p className="text-sm font-medium mb-1">Admin private key (save this now):</p>
+            <div className="space-y-2 pt-2">
+              <p className="text-sm font-medium">Save the admin key backup now</p>
+              <p className="text-xs text-gray-400">
+                The private key is the only way to read reports. Choose a passphrase (at least{" "}
+                {MIN_PASSPHRASE_LENGTH} characters) to encrypt a backup file, then keep the file and the passphrase
+                somewhere safe. Neither can be recovered.
+              </p>
+              <div className="flex flex-wrap gap-2">
+                <input
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  placeholder="Passphrase"
+                  autoComplete="new-password"
+                  className="flex-1 min-w-[180px] rounded-md border border-slate-600 bg-black px-3 py-1.5 text-sm outline-none focus:border-cyan-400 focus:ring-1 focus:ring-cyan-500"
+                />
+                <input
+                  type="password"
+                  value={passphraseConfirm}
+                  onChange={(e) => setPassphraseConfirm(e.target.value)}
+                  placeholder="Repeat passphrase"
+                  autoComplete="new-password"
+                  className="flex-1 min-w-[180px] rounded-md border border-slate-600 bg-black px-3 py-1.5 text-sm outline-none focus:border-cyan-400 focus:ring-1 focus:ring-cyan-500"
+                />
+              </div>
+              <button
+                onClick={downloadKeyBackup}
+                disabled={backupSaving || !passphrase}
+                className="px-3 py-1.5 rounded-md border border-gray-600 hover:bg-gray-800 text-sm disabled:opacity-50"
+              >
+                {backupSaving ? "Encrypting..." : "Download key backup"}
+              </button>
+              {backupError && <p className="text-red-500 text-xs">{backupError}</p>}
+              {backupSaved && (
+                <p className="text-xs text-green-400">Backup downloaded. Drop it on the admin page to unlock the inbox.</p>
+              )}
+            </div>
+
+            <details className="text-xs">
+              <summary className="cursor-pointer text-gray-400">Show raw private key (JWK, unencrypted)</summary>
               <textarea
                 readOnly
-                className="w-full h-40 text-xs font-mono bg-black border border-gray-700 rounded p-2"
+                className="mt-2 w-full h-40 text-xs font-mono bg-black border border-gray-700 rounded p-2"
                 value={privateKey}
               />
-            </div>
+            </details>
           </div>
         )}
       </section>
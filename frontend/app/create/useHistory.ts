@@ -0,0 +1,66 @@
+"use client";
+
+import { useCallback, useState } from "react";
+
+// Undo / redo over a piece of builder state. Edits that share a coalesce key
+// and arrive within a second of each other (typing into one input) collapse
+// into a single undo step.
+
+const LIMIT = 100;
+const COALESCE_MS = 1000;
+
+type History<T> = {
+  past: T[];
+  present: T;
+  future: T[];
+  lastKey?: string;
+  lastAt: number;
+};
+
+export type Update<T> = T | ((prev: T) => T);
+
+export function useHistory<T>(initial: () => T) {
+  const [history, setHistory] = useState<History<T>>(() => ({ past: [], present: initial(), future: [], lastAt: 0 }));
+
+  const set = useCallback((update: Update<T>, coalesceKey?: string) => {
+    setHistory((h) => {
+      const next = typeof update === "function" ? (update as (prev: T) => T)(h.present) : update;
+      if (Object.is(next, h.present)) return h;
+
+      const now = Date.now();
+      const merge = coalesceKey !== undefined && coalesceKey === h.lastKey && now - h.lastAt < COALESCE_MS;
+      return {
+        past: merge ? h.past : [...h.past, h.present].slice(-LIMIT),
+        present: next,
+        future: [],
+        lastKey: coalesceKey,
+        lastAt: now,
+      };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory((h) =>
+      h.past.length
+        ? { past: h.past.slice(0, -1), present: h.past[h.past.length - 1], future: [h.present, ...h.future], lastAt: 0 }
+        : h
+    );
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory((h) =>
+      h.future.length
+        ? { past: [...h.past, h.present], present: h.future[0], future: h.future.slice(1), lastAt: 0 }
+        : h
+    );
+  }, []);
+
+  return {
+    state: history.present,
+    set,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+}
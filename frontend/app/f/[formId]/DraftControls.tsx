@@ -0,0 +1,155 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  DRAFT_TTL_HOURS,
+  DraftData,
+  DraftInfo,
+  DraftSession,
+  MIN_PIN_LENGTH,
+  findDraft,
+  restoreDraft,
+  saveDraft,
+  startDraft,
+  wipeDraft,
+} from "@/lib/drafts";
+
+type Props = {
+  formId: string;
+  values: Record<string, unknown>;
+  step: number;
+  onRestore: (data: DraftData) => void;
+};
+
+const inputClass =
+  "w-40 border border-gray-600 bg-black rounded px-2 py-1 text-sm outline-none focus:border-cyan-400 focus:ring-1 focus:ring-cyan-500";
+const buttonClass = "px-3 py-1 rounded border border-gray-600 hover:bg-gray-800 text-xs disabled:opacity-40";
+
+// Opt-in encrypted autosave of unsent answers on this device
+export default function DraftControls({ formId, values, step, onRestore }: Props) {
+  const [existing, setExisting] = useState<DraftInfo | null>(null);
+  const [session, setSession] = useState<DraftSession | null>(null);
+  const [saved, setSaved] = useState<DraftInfo | null>(null);
+  const [pin, setPin] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setExisting(findDraft(formId));
+  }, [formId]);
+
+  // Save a second after the last change
+  useEffect(() => {
+    if (!session) return;
+    const timer = window.setTimeout(() => {
+      saveDraft(formId, session, { values, step })
+        .then(setSaved)
+        .catch(() => setError("Could not save the draft"));
+    }, 1000);
+    return () => window.clearTimeout(timer);
+  }, [formId, session, values, step]);
+
+  async function turnOn() {
+    setBusy(true);
+    try {
+      setSession(await startDraft(pin));
+      setPin("");
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not start autosave");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function restore() {
+    setBusy(true);
+    try {
+      const restored = await restoreDraft(formId, pin);
+      onRestore(restored.data);
+      setSession(restored.session);
+      setSaved(existing);
+      setExisting(null);
+      setPin("");
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not restore the draft");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function wipe() {
+    wipeDraft(formId);
+    setSession(null);
+    setSaved(null);
+    setExisting(null);
+    setPin("");
+    setError(null);
+  }
+
+  const pinInput = (
+    <input
+      type="password"
+      inputMode="numeric"
+      autoComplete="off"
+      value={pin}
+      onChange={(e) => setPin(e.target.value)}
+      placeholder="PIN"
+      className={inputClass}
+    />
+  );
+
+  return (
+    <div className="mb-6 border border-gray-700 rounded-lg p-3 text-xs text-gray-300 space-y-2">
+      {existing && !session ? (
+        <>
+          <p>
+            An encrypted draft from {new Date(existing.savedAt).toLocaleString()} is saved on this device. Enter its PIN
+            to continue where you left off.
+          </p>
+          <div className="flex flex-wrap items-center gap-2">
+            {pinInput}
+            <button onClick={restore} disabled={busy || !pin} className={buttonClass}>
+              {busy ? "Unlocking..." : "Restore draft"}
+            </button>
+            <button onClick={wipe} disabled={busy} className="text-red-400 hover:text-red-300">
+              Wipe draft
+            </button>
+          </div>
+        </>
+      ) : session ? (
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="text-green-400">Draft autosave on</span>
+          <span className="text-gray-400">
+            {saved ? `Saved ${new Date(saved.savedAt).toLocaleTimeString()}` : "Not saved yet"} · deleted after{" "}
+            {DRAFT_TTL_HOURS} hours without changes
+          </span>
+          <button onClick={wipe} className="ml-auto text-red-400 hover:text-red-300">
+            Wipe draft
+          </button>
+        </div>
+      ) : (
+        <details>
+          <summary className="cursor-pointer">Save a draft on this device</summary>
+          <div className="mt-2 space-y-2">
+            <p className="text-gray-400">
+              Your answers are encrypted with a PIN and kept only in this browser, so you can come back if the tab
+              closes. Attached files are not saved. Anyone with this device and your PIN could read the draft, so skip
+              this on a shared computer.
+            </p>
+            <div className="flex flex-wrap items-center gap-2">
+              {pinInput}
+              <button onClick={turnOn} disabled={busy || pin.length < MIN_PIN_LENGTH} className={buttonClass}>
+                {busy ? "Preparing..." : "Turn on autosave"}
+              </button>
+              <span className="text-gray-500">At least {MIN_PIN_LENGTH} characters</span>
+            </div>
+          </div>
+        </details>
+      )}
+
+      {error && <p className="text-red-500">{error}</p>}
+    </div>
+  );
+}
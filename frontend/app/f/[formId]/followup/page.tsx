@@ -0,0 +1,180 @@
+"use client";
+
+import { useParams } from "next/navigation";
+import { useState } from "react";
+import { EnvelopeRecipient } from "@/lib/envelope";
+import {
+  StoredMessage,
+  ThreadMessage,
+  decryptMessage,
+  encryptMessage,
+  replyTokenFromCode,
+  reporterRecipient,
+  threadIdFromCode,
+  unwrapReporterKey,
+} from "@/lib/followup";
+import { importRecipients, recipientsFromForm } from "@/lib/keys";
+
+type OpenThread = {
+  threadId: string;
+  replyToken: string;
+  privateKey: CryptoKey;
+  recipients: EnvelopeRecipient[];
+};
+
+// Reporter side of the follow-up channel. Everything is unlocked from the
+// receipt code in the browser; nothing about the reporter is stored here.
+export default function FollowupPage() {
+  const { formId } = useParams<{ formId: string }>();
+
+  const [code, setCode] = useState("");
+  const [thread, setThread] = useState<OpenThread | null>(null);
+  const [messages, setMessages] = useState<ThreadMessage[]>([]);
+  const [reply, setReply] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function loadMessages(open: OpenThread, stored: StoredMessage[]) {
+    const result: ThreadMessage[] = [];
+    for (const m of stored) {
+      try {
+        result.push(await decryptMessage(open.privateKey, m, open.threadId));
+      } catch {
+        result.push({ from: m.from, body: "Could not decrypt or verify this message.", sentAt: m.postedAt });
+      }
+    }
+    setMessages(result);
+  }
+
+  async function fetchThread(threadId: string) {
+    const res = await fetch(`http://localhost:8000/threads/${formId}/${threadId}`);
+    if (res.status === 404) throw new Error("No conversation found for this receipt code");
+    if (!res.ok) throw new Error("Could not load the conversation");
+    return res.json();
+  }
+
+  async function openThread() {
+    setBusy(true);
+    try {
+      const threadId = await threadIdFromCode(code);
+      const data = await fetchThread(threadId);
+      const privateKey = await unwrapReporterKey(code, data.reporterKey);
+
+      const formRes = await fetch(`http://localhost:8000/form/${formId}`);
+      if (!formRes.ok) throw new Error("Form not found");
+      const form = await formRes.json();
+      const recipients = [
+        ...(await importRecipients(await recipientsFromForm(form))),
+        await reporterRecipient(data.publicKey),
+      ];
+
+      const open: OpenThread = { threadId, replyToken: await replyTokenFromCode(code), privateKey, recipients };
+      await loadMessages(open, data.messages as StoredMessage[]);
+      setThread(open);
+      setCode("");
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not open the conversation");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function sendReply() {
+    if (!thread || !reply.trim()) return;
+    setBusy(true);
+    try {
+      const encrypted = await encryptMessage(thread.recipients, thread.threadId, "reporter", reply.trim());
+      const res = await fetch(`http://localhost:8000/threads/${formId}/${thread.threadId}/messages`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "X-Reply-Token": thread.replyToken },
+        body: JSON.stringify({ encrypted }),
+      });
+      if (!res.ok) throw new Error("Could not send the reply");
+
+      const data = await fetchThread(thread.threadId);
+      await loadMessages(thread, data.messages as StoredMessage[]);
+      setReply("");
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not send the reply");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <main className="p-8 max-w-xl mx-auto">
+      <h1 className="text-3xl font-bold mb-4">Follow-up on your report</h1>
+
+      {!thread ? (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-400">
+            Enter the receipt code you got after submitting. It is checked in your browser; it is never sent to the
+            server.
+          </p>
+          <input
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && openThread()}
+            placeholder="XXXX-XXXX-XXXX-XXXX-XXXX-XXXX"
+            autoComplete="off"
+            className="w-full border border-gray-600 bg-black rounded p-2 font-mono text-sm outline-none focus:border-cyan-400 focus:ring-1 focus:ring-cyan-500"
+          />
+          <button
+            onClick={openThread}
+            disabled={busy || !code.trim()}
+            className="px-4 py-2 rounded-lg border border-gray-600 hover:bg-gray-800 disabled:opacity-50"
+          >
+            {busy ? "Unlocking..." : "Open conversation"}
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {messages.length === 0 && <p className="text-sm text-gray-400">No questions from investigators yet.</p>}
+
+          {messages.map((m, i) => (
+            <div
+              key={i}
+              className={`rounded-lg border p-3 text-sm ${
+                m.from === "reporter" ? "border-cyan-800 bg-cyan-950/30 ml-8" : "border-gray-700 bg-black/60 mr-8"
+              }`}
+            >
+              <p className="text-xs text-gray-400 mb-1">
+                {m.from === "reporter" ? "You" : "Investigator"} · {new Date(m.sentAt).toLocaleString()}
+              </p>
+              <p className="whitespace-pre-wrap break-words">{m.body}</p>
+            </div>
+          ))}
+
+          <textarea
+            value={reply}
+            onChange={(e) => setReply(e.target.value)}
+            placeholder="Write an anonymous reply"
+            className="w-full border border-gray-600 bg-black rounded p-2 min-h-[100px] text-sm outline-none focus:border-cyan-400 focus:ring-1 focus:ring-cyan-500"
+          />
+          <div className="flex gap-3">
+            <button
+              onClick={sendReply}
+              disabled={busy || !reply.trim()}
+              className="px-4 py-2 rounded-lg border border-gray-600 hover:bg-gray-800 disabled:opacity-50"
+            >
+              {busy ? "Sending..." : "Send reply"}
+            </button>
+            <button
+              onClick={() => {
+                setThread(null);
+                setMessages([]);
+              }}
+              className="px-4 py-2 rounded-lg border border-gray-700 text-gray-400 hover:bg-gray-900"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-red-500 text-sm mt-3">{error}</p>}
+    </main>
+  );
+}
@@ -1,42 +1,63 @@
 "use client";
 
+import Link from "next/link";
 import { useParams } from "next/navigation";
 import { useEffect, useState } from "react";
-
-type FieldType =
-  | "text"
-  | "textarea"
-  | "number"
-  | "select"
-  | "multi-select"
-  | "rating"
-  | "checkbox";
-
-type Field = {
-  id: string;
-  label: string;
-  type: FieldType;
-  required?: boolean;
-  options?: string[];
-  min?: number;
-  max?: number;
-  helpText?: string;
-};
-
-type FormSchema = {
-  fields: Field[];
-};
+import { EnvelopeRecipient, encryptEnvelope } from "@/lib/envelope";
+import { importRecipients, recipientsFromForm } from "@/lib/keys";
+import { Receipt, createReceipt } from "@/lib/receipt";
+import { downloadFile } from "@/lib/download";
+import { wipeDraft } from "@/lib/drafts";
+import { AttachmentRef, encryptFile } from "@/lib/attachments";
+import { isRequired } from "@/lib/conditions";
+import {
+  Field,
+  FormSchema,
+  checkAnswer,
+  isNumeric,
+  parseFormSchema,
+  validateAnswers,
+  visibleFields,
+} from "@/lib/schema";
+import { formSteps } from "@/lib/sections";
+import {
+  FOLLOWUP_FIELD,
+  FollowupRef,
+  NewThread,
+  createReporterKey,
+  generateReceiptCode,
+  replyTokenFromCode,
+  threadIdFromCode,
+} from "@/lib/followup";
+import FieldInput, { reviewAnswer } from "@/components/FieldInput";
+import FormHeading from "@/components/FormHeading";
+import Markdown from "@/components/Markdown";
+import { DEFAULT_ACCENT, textOn } from "@/lib/branding";
+import DraftControls from "./DraftControls";
 
 export default function SubmitFormPage() {
   const { formId } = useParams<{ formId: string }>();
 
   const [schema, setSchema] = useState<FormSchema | null>(null);
-  const [publicKey, setPublicKey] = useState<CryptoKey | null>(null);
+  const [recipients, setRecipients] = useState<EnvelopeRecipient[] | null>(null);
   const [loading, setLoading] = useState(true);
   const [submitted, setSubmitted] = useState(false);
+  const [sending, setSending] = useState(false);
+  const [allowFollowup, setAllowFollowup] = useState(true);
+  const [receiptCode, setReceiptCode] = useState<string | null>(null);
+  const [receipt, setReceipt] = useState<Receipt | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [step, setStep] = useState(0);
+  // fields that failed the last Next / Send; their errors update live as they are fixed
+  const [flagged, setFlagged] = useState<string[]>([]);
   const [values, setValues] = useState<Record<string, any>>({});
 
+  // Questions currently shown, split into pages; one past the last page is the review
+  const steps = formSteps(schema ? visibleFields(schema, values) : [], schema?.sections);
+  const currentStep = Math.min(step, steps.length);
+  const reviewing = currentStep === steps.length;
+
   useEffect(() => {
     if (!formId) return;
 
@@ -46,19 +67,13 @@ export default function SubmitFormPage() {
         if (!res.ok) throw new Error("Form not found");
         const data = await res.json();
 
-        const jwk = JSON.parse(data.publicKey);
-        const importedKey = await window.crypto.subtle.importKey(
-          "jwk",
-          jwk,
-          { name: "RSA-OAEP", hash: "SHA-256" },
-          true,
-          ["encrypt"]
-        );
-
-        setSchema(data.schema as FormSchema);
-        setPublicKey(importedKey);
+        // Every listed recipient gets their own wrapped copy of the report key
+        const listed = await recipientsFromForm(data);
+
+        setSchema(parseFormSchema(data.schema));
+        setRecipients(await importRecipients(listed));
       } catch (err: any) {
-        setError(err.message);
+        setLoadError(err.message);
       } finally {
         setLoading(false);
       }
@@ -68,54 +83,77 @@ export default function SubmitFormPage() {
   }, [formId]);
 
   async function encrypt(text: string) {
-    const encoded = new TextEncoder().encode(text);
-    const encrypted = await window.crypto.subtle.encrypt(
-      { name: "RSA-OAEP" },
-      publicKey!,
-      encoded
-    );
-    return btoa(String.fromCharCode(...new Uint8Array(encrypted)));
+    return encryptEnvelope(recipients!, text);
+  }
+
+  async function uploadFile(file: File): Promise<AttachmentRef> {
+    const { encrypted, ref } = await encryptFile(file);
+    const res = await fetch(`http://localhost:8000/upload/${formId}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ encrypted }),
+    });
+    if (!res.ok) throw new Error(`Upload failed for "${file.name}"`);
+    const data = await res.json();
+    return { ...ref, blobId: data.blobId };
+  }
+
+  // The follow-up thread the backend opens together with the report, and the
+  // reference admins need to reply
+  async function prepareFollowupThread(code: string): Promise<{ ref: FollowupRef; thread: NewThread }> {
+    const threadId = await threadIdFromCode(code);
+    const { publicKey, wrappedKey } = await createReporterKey(code);
+    return {
+      ref: { threadId, publicKey },
+      thread: { threadId, replyToken: await replyTokenFromCode(code), publicKey, reporterKey: wrappedKey },
+    };
+  }
+
+  // Flags every failing answer for inline errors and scrolls to the first one
+  function checkAnswers(fields: Field[]): string | null {
+    if (!schema) return null;
+    const errors = validateAnswers(schema, values, fields);
+    setFlagged(errors.map((e) => e.fieldId));
+    if (!errors.length) return null;
+
+    const first = errors[0].fieldId;
+    const page = steps.findIndex((st) => st.fields.some((f) => f.id === first));
+    if (page !== -1 && page !== currentStep) setStep(page);
+    window.setTimeout(() => document.getElementById(`field-${first}`)?.scrollIntoView({ block: "center" }), 0);
+    return first;
+  }
+
+  function goToStep(index: number) {
+    setStep(index);
+    setError(null);
+    window.scrollTo({ top: 0 });
+  }
+
+  function nextStep() {
+    if (checkAnswers(steps[currentStep].fields)) return;
+    goToStep(currentStep + 1);
+  }
+
+  function fieldError(field: Field) {
+    return schema && flagged.includes(field.id) ? checkAnswer(field, schema, values) : null;
   }
 
   async function handleSubmit() {
     try {
-      if (!publicKey || !schema) return;
-
-      // Basic required check
-      for (const field of schema.fields) {
-        const v = values[field.id];
-        if (field.required) {
-          if (field.type === "checkbox") {
-            if (!v) {
-              throw new Error(`Please confirm: ${field.label}`);
-            }
-          } else if (v === undefined || v === null || String(v).trim() === "") {
-            throw new Error(`Please fill: ${field.label}`);
-          }
-        }
+      if (!recipients || !schema || sending) return;
 
-        if (field.type === "number" || field.type === "rating") {
-          if (v !== undefined && v !== null && String(v).trim() !== "") {
-            const num = Number(v);
-            if (Number.isNaN(num)) {
-              throw new Error(`Field "${field.label}" must be a number.`);
-            }
-            if (typeof field.min === "number" && num < field.min) {
-              throw new Error(`Field "${field.label}" must be at least ${field.min}.`);
-            }
-            if (typeof field.max === "number" && num > field.max) {
-              throw new Error(`Field "${field.label}" must be at most ${field.max}.`);
-            }
-          }
-        }
-      }
+      // Hidden questions are neither validated nor sent
+      const asked = visibleFields(schema, values);
+      if (checkAnswers(asked)) return;
+
+      setSending(true);
 
       // Normalize payload
       const payload: Record<string, any> = {};
-      for (const field of schema.fields) {
+      for (const field of asked) {
         let v = values[field.id];
 
-        if (field.type === "number" || field.type === "rating") {
+        if (isNumeric(field.type)) {
           if (v === "" || v === undefined || v === null) {
             v = null;
           } else {
@@ -123,231 +161,249 @@ export default function SubmitFormPage() {
           }
         }
 
+        if (field.type === "file") {
+          const refs: AttachmentRef[] = [];
+          for (const file of (v as File[] | undefined) || []) {
+            refs.push(await uploadFile(file));
+          }
+          v = refs;
+        }
+
         payload[field.id] = v;
       }
 
+      let code: string | null = null;
+      let thread: NewThread | undefined;
+      if (allowFollowup) {
+        code = generateReceiptCode();
+        const followup = await prepareFollowupThread(code);
+        payload[FOLLOWUP_FIELD] = followup.ref;
+        thread = followup.thread;
+      }
+
       const encrypted = await encrypt(JSON.stringify(payload));
 
       const res = await fetch(`http://localhost:8000/submit/${formId}`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ encrypted }),
+        body: JSON.stringify({ encrypted, thread }),
       });
 
       if (!res.ok) throw new Error("Submit failed");
+      const stored = await res.json();
+      setReceipt(
+        await createReceipt(formId, stored.blobId, encrypted, stored.storedAt || new Date().toISOString())
+      );
+      setReceiptCode(code);
       setSubmitted(true);
+      wipeDraft(formId);
       setError(null);
     } catch (err: any) {
       setError(err.message);
+    } finally {
+      setSending(false);
     }
   }
 
-  function renderField(field: Field) {
-    const commonLabel = (
-      <label className="font-medium text-sm">
-        {field.label}
-        {field.required && <span className="text-red-400 ml-1">*</span>}
-      </label>
-    );
-
-    const help = field.helpText && (
-      <p className="text-xs text-gray-400 mt-1">{field.helpText}</p>
-    );
-
-    const value = values[field.id];
-
-    switch (field.type) {
-      case "textarea":
-        return (
-          <div className="flex flex-col gap-1">
-            {commonLabel}
-            <textarea
-              required={field.required}
-              className="border border-gray-600 bg-black rounded p-2 min-h-[120px] text-sm outline-none focus:border-cyan-400 focus:ring-1 focus:ring-cyan-500"
-              value={value ?? ""}
-              onChange={(e) => setValues((v) => ({ ...v, [field.id]: e.target.value }))}
-            />
-            {help}
-          </div>
-        );
-
-      case "text":
-        return (
-          <div className="flex flex-col gap-1">
-            {commonLabel}
-            <input
-              type="text"
-              required={field.required}
-              className="border border-gray-600 bg-black rounded p-2 text-sm outline-none focus:border-cyan-400 focus:ring-1 focus:ring-cyan-500"
-              value={value ?? ""}
-              onChange={(e) => setValues((v) => ({ ...v, [field.id]: e.target.value }))}
-            />
-            {help}
-          </div>
-        );
-
-      case "number":
-        return (
-          <div className="flex flex-col gap-1">
-            {commonLabel}
-            <input
-              type="number"
-              required={field.required}
-              min={field.min}
-              max={field.max}
-              className="border border-gray-600 bg-black rounded p-2 text-sm outline-none focus:border-cyan-400 focus:ring-1 focus:ring-cyan-500"
-              value={value ?? ""}
-              onChange={(e) => setValues((v) => ({ ...v, [field.id]: e.target.value }))}
-            />
-            {field.min !== undefined || field.max !== undefined ? (
-              <p className="text-xs text-gray-400">
-                {field.min !== undefined && `Min ${field.min}`}{" "}
-                {field.max !== undefined && `Max ${field.max}`}
-              </p>
-            ) : null}
-            {help}
-          </div>
-        );
-
-      case "select":
-        return (
-          <div className="flex flex-col gap-1">
-            {commonLabel}
-            <select
-              required={field.required}
-              className="border border-gray-600 bg-black rounded p-2 text-sm outline-none focus:border-cyan-400 focus:ring-1 focus:ring-cyan-500"
-              value={value ?? ""}
-              onChange={(e) => setValues((v) => ({ ...v, [field.id]: e.target.value }))}
-            >
-              <option value="">Select...</option>
-              {(field.options || []).map((opt) => (
-                <option key={opt} value={opt}>
-                  {opt}
-                </option>
-              ))}
-            </select>
-            {help}
-          </div>
-        );
-
-      case "multi-select":
-        return (
-          <div className="flex flex-col gap-1">
-            {commonLabel}
-            <select
-              multiple
-              className="border border-gray-600 bg-black rounded p-2 text-sm outline-none focus:border-cyan-400 focus:ring-1 focus:ring-cyan-500"
-              value={(value as string[]) || []}
-              onChange={(e) => {
-                const selected = Array.from(e.target.selectedOptions).map((o) => o.value);
-                setValues((v) => ({ ...v, [field.id]: selected }));
-              }}
-            >
-              {(field.options || []).map((opt) => (
-                <option key={opt} value={opt}>
-                  {opt}
-                </option>
-              ))}
-            </select>
-            <p className="text-xs text-gray-400">Hold Ctrl or Cmd to select multiple.</p>
-            {help}
-          </div>
-        );
-
-      case "rating": {
-        const min = field.min ?? 1;
-        const max = field.max ?? 5;
-        const options = [];
-        for (let i = min; i <= max; i++) options.push(i);
-        return (
-          <div className="flex flex-col gap-1">
-            {commonLabel}
-            <div className="flex gap-2 mt-1">
-              {options.map((n) => (
-                <button
-                  key={n}
-                  type="button"
-                  onClick={() => setValues((v) => ({ ...v, [field.id]: String(n) }))}
-                  className={`w-8 h-8 rounded-full border text-sm ${
-                    String(value) === String(n)
-                      ? "bg-cyan-500 text-black border-cyan-400"
-                      : "border-gray-600 text-gray-300 hover:border-cyan-400"
-                  }`}
-                >
-                  {n}
-                </button>
-              ))}
-            </div>
-            {help}
-          </div>
-        );
-      }
-
-      case "checkbox":
-        return (
-          <div className="flex items-start gap-2">
-            <input
-              id={field.id}
-              type="checkbox"
-              checked={!!value}
-              onChange={(e) => setValues((v) => ({ ...v, [field.id]: e.target.checked }))}
-              className="mt-1 rounded border-gray-500 bg-black"
-              required={field.required}
-            />
-            <div className="flex flex-col">
-              <label htmlFor={field.id} className="font-medium text-sm">
-                {field.label}
-                {field.required && <span className="text-red-400 ml-1">*</span>}
-              </label>
-              {help}
-            </div>
-          </div>
-        );
-
-      default:
-        return null;
-    }
-  }
+  const accent = schema?.branding?.accent ?? DEFAULT_ACCENT;
+  const primaryStyle = { backgroundColor: accent, borderColor: accent, color: textOn(accent) };
 
   if (loading) return <p className="p-8 text-gray-300">Loading...</p>;
-  if (error) return <p className="p-8 text-red-500">{error}</p>;
+  if (loadError) return <p className="p-8 text-red-500">{loadError}</p>;
 
   if (submitted) {
     return (
       <main className="p-8 max-w-xl mx-auto">
-        <h1 className="text-2xl font-bold mb-2">Report submitted</h1>
-        <p className="text-gray-400">
-          Your encrypted report has been stored. It can only be read by the person holding the private key.
-        </p>
+        {schema?.thankYou ? (
+          <Markdown text={schema.thankYou} className="text-gray-300" />
+        ) : (
+          <>
+            <h1 className="text-2xl font-bold mb-2">Report submitted</h1>
+            <p className="text-gray-400">
+              Your encrypted report has been stored. It can only be read by the person holding the private key.
+            </p>
+          </>
+        )}
+
+        {receipt && (
+          <div className="mt-6 border border-gray-700 rounded-lg p-4 space-y-2 text-sm">
+            <p className="font-medium">Submission receipt</p>
+            <p className="text-xs text-gray-400">
+              Blob ID: <span className="font-mono break-all text-gray-200">{receipt.blobId}</span>
+            </p>
+            <p className="text-xs text-gray-400">
+              SHA-256: <span className="font-mono break-all text-gray-200">{receipt.sha256}</span>
+            </p>
+            <p className="text-xs text-gray-400">Stored: {new Date(receipt.submittedAt).toLocaleString()}</p>
+            <p className="text-xs text-gray-400">
+              Anyone can use the receipt to check that your encrypted report is still on Walrus unchanged. It does not
+              contain your answers, but it does link you to this report, so keep it private.
+            </p>
+            <div className="flex flex-wrap items-center gap-3">
+              <button
+                onClick={() =>
+                  downloadFile(`cipherwhisp-receipt-${receipt.blobId}.json`, JSON.stringify(receipt, null, 2))
+                }
+                className="px-3 py-1.5 rounded-md border border-gray-600 hover:bg-gray-800 text-xs"
+              >
+                Download receipt
+              </button>
+              <Link href="/verify" className="text-xs text-cyan-400 hover:text-cyan-300">
+                Verify a receipt
+              </Link>
+            </div>
+          </div>
+        )}
+
+        {receiptCode && (
+          <div className="mt-6 border border-gray-700 rounded-lg p-4 space-y-2 text-sm">
+            <p className="font-medium">Your receipt code</p>
+            <p className="font-mono text-lg tracking-wider break-all">{receiptCode}</p>
+            <p className="text-xs text-gray-400">
+              Write this down and keep it private. It is the only way back into the conversation: investigators can
+              leave questions here and you can answer them anonymously. It cannot be recovered if lost.
+            </p>
+            <Link href={`/f/${formId}/followup`} className="text-xs text-cyan-400 hover:text-cyan-300">
+              Open the follow-up page
+            </Link>
+          </div>
+        )}
       </main>
     );
   }
 
   return (
     <main className="p-8 max-w-xl mx-auto">
-      <h1 className="text-3xl font-bold mb-4">Submit anonymous report</h1>
+      {schema && <FormHeading schema={schema} />}
       <p className="text-sm text-gray-400 mb-6">
         This report is encrypted in your browser before it is stored. Do not include your name or any details that
         reveal your identity unless you want to.
       </p>
 
+      <DraftControls
+        formId={formId}
+        values={values}
+        step={currentStep}
+        onRestore={(draft) => {
+          setValues(draft.values);
+          setStep(draft.step);
+        }}
+      />
+
+      {steps.length > 1 || reviewing ? (
+        <div className="mb-6 space-y-2">
+          <div className="flex justify-between text-xs text-gray-400">
+            <span>
+              Step {currentStep + 1} of {steps.length + 1}
+            </span>
+            <span>{reviewing ? "Review" : steps[currentStep].section?.title}</span>
+          </div>
+          <div className="h-1.5 rounded bg-gray-800">
+            <div
+              className="h-1.5 rounded transition-all"
+              style={{ width: `${((currentStep + 1) / (steps.length + 1)) * 100}%`, backgroundColor: accent }}
+            />
+          </div>
+        </div>
+      ) : null}
+
       <form
+        noValidate
         onSubmit={(e) => {
           e.preventDefault();
-          handleSubmit();
+          if (reviewing) handleSubmit();
+          else nextStep();
         }}
         className="space-y-6"
       >
-        {schema?.fields.map((field) => (
-          <div key={field.id}>{renderField(field)}</div>
-        ))}
-
-        <button
-          type="submit"
-          className="px-4 py-2 rounded-lg border border-gray-600 hover:bg-gray-800"
-        >
-          Submit
-        </button>
+        {reviewing ? (
+          <div className="space-y-6">
+            <div>
+              <h2 className="text-xl font-semibold">Review your report</h2>
+              <p className="text-xs text-gray-400 mt-1">
+                Nothing has been sent yet. Check your answers, then encrypt and send.
+              </p>
+            </div>
+            {steps.map((s, index) => (
+              <div key={s.section?.id ?? index} className="border border-gray-700 rounded-lg p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <p className="font-medium text-sm">{s.section?.title ?? "Your answers"}</p>
+                  <button
+                    type="button"
+                    onClick={() => goToStep(index)}
+                    className="text-xs text-cyan-400 hover:text-cyan-300"
+                  >
+                    Edit
+                  </button>
+                </div>
+                {s.fields.map((field) => (
+                  <div key={field.id}>
+                    <p className="text-xs text-gray-400">{field.label}</p>
+                    <p className="text-sm break-words whitespace-pre-wrap">{reviewAnswer(field, values[field.id])}</p>
+                  </div>
+                ))}
+              </div>
+            ))}
+
+            <label className="flex items-start gap-2 text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={allowFollowup}
+                onChange={(e) => setAllowFollowup(e.target.checked)}
+                className="mt-1 rounded border-gray-500 bg-black"
+              />
+              <span>
+                Allow investigators to send me follow-up questions
+                <span className="block text-xs text-gray-400">
+                  You get a secret receipt code to read and answer them anonymously.
+                </span>
+              </span>
+            </label>
+          </div>
+        ) : (
+          <>
+            {steps[currentStep].section && (
+              <div>
+                <h2 className="text-xl font-semibold">{steps[currentStep].section?.title}</h2>
+                {steps[currentStep].section?.description && (
+                  <p className="text-sm text-gray-400 mt-1">{steps[currentStep].section?.description}</p>
+                )}
+              </div>
+            )}
+            {steps[currentStep].fields.map((field) => (
+              <div key={field.id} id={`field-${field.id}`}>
+                <FieldInput
+                  field={field}
+                  value={values[field.id]}
+                  required={isRequired(field, schema?.fields || [], values)}
+                  onChange={(value) => setValues((v) => ({ ...v, [field.id]: value }))}
+                />
+                {fieldError(field) && <p className="text-xs text-red-400 mt-1">{fieldError(field)}</p>}
+              </div>
+            ))}
+          </>
+        )}
+
+        <div className="flex gap-3">
+          {currentStep > 0 && (
+            <button
+              type="button"
+              onClick={() => goToStep(currentStep - 1)}
+              disabled={sending}
+              className="px-4 py-2 rounded-lg border border-gray-600 hover:bg-gray-800 disabled:opacity-50"
+            >
+              Back
+            </button>
+          )}
+          <button
+            type="submit"
+            disabled={sending}
+            style={primaryStyle}
+            className="px-4 py-2 rounded-lg border font-medium hover:opacity-90 disabled:opacity-50"
+          >
+            {reviewing ? (sending ? "Encrypting and sending..." : "Encrypt and send") : "Next"}
+          </button>
+        </div>
 
         {error && <p className="text-red-500 text-sm">{error}</p>}
       </form>
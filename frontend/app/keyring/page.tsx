@@ -0,0 +1,177 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import {
+  KeyringEntry,
+  KeyringStatus,
+  createKeyring,
+  forgetKey,
+  keyringStatus,
+  listKeyring,
+  lockKeyring,
+  resetKeyring,
+  unlockKeyring,
+} from "@/lib/keyring";
+import { MIN_PASSPHRASE_LENGTH } from "@/lib/keybackup";
+
+export default function KeyringPage() {
+  const [status, setStatus] = useState<KeyringStatus | null>(null);
+  const [entries, setEntries] = useState<KeyringEntry[]>([]);
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function refresh() {
+    try {
+      const [st, list] = await Promise.all([keyringStatus(), listKeyring()]);
+      setStatus(st);
+      setEntries(list);
+    } catch {
+      setError("IndexedDB is not available in this browser");
+    }
+  }
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  async function handleUnlock() {
+    setBusy(true);
+    try {
+      if (status?.initialized) {
+        await unlockKeyring(passphrase);
+      } else {
+        await createKeyring(passphrase, confirmation);
+      }
+      setPassphrase("");
+      setConfirmation("");
+      setError(null);
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not unlock keyring");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleLock() {
+    await lockKeyring();
+    await refresh();
+  }
+
+  async function handleForget(formId: string) {
+    if (!window.confirm("Forget the stored key for this form? Keep a backup file if you still need it.")) return;
+    await forgetKey(formId);
+    await refresh();
+  }
+
+  async function handleReset() {
+    if (!window.confirm("Delete the keyring passphrase and every stored key on this device?")) return;
+    await resetKeyring();
+    await refresh();
+  }
+
+  return (
+    <main className="min-h-screen p-8 max-w-3xl mx-auto text-gray-100">
+      <h1 className="text-3xl font-bold mb-2">Local keyring</h1>
+      <p className="text-sm text-gray-400 mb-6">
+        Form keys remembered on this device. They are stored in IndexedDB as keys that cannot be exported and are only
+        used while the keyring is unlocked. Locking the keyring means the passphrase is needed again before any inbox
+        can auto-unlock. It locks by itself after 30 minutes without use or 8 hours after unlocking.
+      </p>
+
+      {status && (
+        <section className="mb-6 space-y-3">
+          <p className="text-sm">
+            Status:{" "}
+            {!status.initialized ? (
+              <span className="text-gray-400">not set up</span>
+            ) : status.unlocked ? (
+              <span className="text-green-400">unlocked</span>
+            ) : (
+              <span className="text-yellow-400">locked</span>
+            )}
+          </p>
+
+          {status.unlocked ? (
+            <button
+              className="px-3 py-1.5 border border-gray-600 rounded hover:bg-gray-800 text-sm"
+              onClick={handleLock}
+            >
+              Lock keyring
+            </button>
+          ) : (
+            <div className="flex gap-2">
+              <input
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleUnlock()}
+                placeholder={
+                  status.initialized
+                    ? "Keyring passphrase"
+                    : `Choose a keyring passphrase (at least ${MIN_PASSPHRASE_LENGTH} characters)`
+                }
+                autoComplete={status.initialized ? "current-password" : "new-password"}
+                className="flex-1 bg-black border border-gray-700 px-2 py-1.5 rounded text-sm"
+              />
+              {!status.initialized && (
+                <input
+                  type="password"
+                  value={confirmation}
+                  onChange={(e) => setConfirmation(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && handleUnlock()}
+                  placeholder="Repeat the passphrase"
+                  autoComplete="new-password"
+                  className="flex-1 bg-black border border-gray-700 px-2 py-1.5 rounded text-sm"
+                />
+              )}
+              <button
+                className="px-3 py-1.5 border border-gray-600 rounded hover:bg-gray-800 text-sm disabled:opacity-40"
+                onClick={handleUnlock}
+                disabled={busy || !passphrase || (!status.initialized && !confirmation)}
+              >
+                {busy ? "Unlocking..." : status.initialized ? "Unlock" : "Create keyring"}
+              </button>
+            </div>
+          )}
+        </section>
+      )}
+
+      {error && <p className="text-red-500 text-sm mb-4">{error}</p>}
+
+      <section className="space-y-3">
+        <h2 className="text-lg font-semibold">Stored keys</h2>
+        {entries.length === 0 && <p className="text-sm text-gray-400">No keys stored yet.</p>}
+
+        {entries.map((entry) => (
+          <div key={entry.formId} className="border border-gray-700 rounded p-3 bg-black/60 text-sm space-y-1">
+            <p className="font-mono text-xs break-all">{entry.formId}</p>
+            <p className="text-xs text-gray-400">
+              Fingerprint <span className="font-mono">{entry.fingerprint}</span> · added{" "}
+              {new Date(entry.addedAt).toLocaleString()}
+            </p>
+            <div className="flex gap-3 pt-1">
+              <Link href={`/admin/${entry.formId}`} className="text-xs text-cyan-400 hover:text-cyan-300">
+                Open inbox
+              </Link>
+              <button className="text-xs text-red-400 hover:text-red-300" onClick={() => handleForget(entry.formId)}>
+                Forget
+              </button>
+            </div>
+          </div>
+        ))}
+      </section>
+
+      {status?.initialized && (
+        <section className="mt-10 border-t border-gray-800 pt-4">
+          <button className="text-xs text-red-400 hover:text-red-300" onClick={handleReset}>
+            Reset keyring (forgot passphrase)
+          </button>
+        </section>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,105 @@
+"use client";
+
+import { useState } from "react";
+import { downloadFile } from "@/lib/download";
+import { MIN_PASSPHRASE_LENGTH, createKeyBackup } from "@/lib/keybackup";
+import { generateRsaKeyPair, keyFingerprint } from "@/lib/keys";
+
+// A personal keypair for an admin who is added as a recipient to someone
+// else's form. Only the public key leaves this page in plaintext.
+export default function RecipientKeyPage() {
+  const [passphrase, setPassphrase] = useState("");
+  const [passphraseConfirm, setPassphraseConfirm] = useState("");
+  const [publicKey, setPublicKey] = useState<string | null>(null);
+  const [fingerprint, setFingerprint] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function generate() {
+    try {
+      setError(null);
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+      }
+      if (passphrase !== passphraseConfirm) {
+        throw new Error("Passphrases do not match.");
+      }
+      setBusy(true);
+
+      const { publicJwk, privateJwk } = await generateRsaKeyPair();
+      const backup = await createKeyBackup(privateJwk, passphrase, "");
+      downloadFile(
+        `cipherwhisp-recipient-key-${backup.fingerprint.replace(/ /g, "").slice(0, 8)}.json`,
+        JSON.stringify(backup, null, 2)
+      );
+
+      setPublicKey(JSON.stringify(publicJwk));
+      setFingerprint(await keyFingerprint(publicJwk));
+      setPassphrase("");
+      setPassphraseConfirm("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not create key");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <main className="min-h-screen p-8 max-w-2xl mx-auto text-gray-100">
+      <h1 className="text-3xl font-bold mb-2">Create a recipient key</h1>
+      <p className="text-sm text-gray-400 mb-6">
+        Use this when a form owner wants to add you as a reader of their reports. A keypair is generated in your
+        browser. The private key is saved as a passphrase protected backup file; send only the public key to the form
+        owner.
+      </p>
+
+      {!publicKey && (
+        <section className="space-y-3">
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder={`Passphrase (at least ${MIN_PASSPHRASE_LENGTH} characters)`}
+            autoComplete="new-password"
+            className="w-full rounded-md border border-slate-600 bg-black px-3 py-1.5 text-sm outline-none focus:border-cyan-400 focus:ring-1 focus:ring-cyan-500"
+          />
+          <input
+            type="password"
+            value={passphraseConfirm}
+            onChange={(e) => setPassphraseConfirm(e.target.value)}
+            placeholder="Repeat passphrase"
+            autoComplete="new-password"
+            className="w-full rounded-md border border-slate-600 bg-black px-3 py-1.5 text-sm outline-none focus:border-cyan-400 focus:ring-1 focus:ring-cyan-500"
+          />
+          <button
+            onClick={generate}
+            disabled={busy || !passphrase}
+            className="px-4 py-2 rounded-lg border border-gray-600 hover:bg-gray-800 disabled:opacity-50"
+          >
+            {busy ? "Generating..." : "Generate and download backup"}
+          </button>
+        </section>
+      )}
+
+      {error && <p className="text-red-500 text-sm mt-3">{error}</p>}
+
+      {publicKey && (
+        <section className="space-y-3 border border-gray-700 rounded-lg p-4 text-sm">
+          <p className="text-green-400">Key backup downloaded.</p>
+          <p>
+            Fingerprint: <span className="font-mono text-xs">{fingerprint}</span>
+          </p>
+          <p className="font-medium">Public key to send to the form owner:</p>
+          <textarea
+            readOnly
+            value={publicKey}
+            className="w-full h-32 text-xs font-mono bg-black border border-gray-700 rounded p-2"
+          />
+          <p className="text-xs text-gray-400">
+            Compare the fingerprint with the one the form owner sees after adding you.
+          </p>
+        </section>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,113 @@
+"use client";
+
+import { useState } from "react";
+import { Receipt, VerifyResult, parseReceipt, verifyReceipt } from "@/lib/receipt";
+import { AGGREGATOR_BASE } from "@/lib/walrus";
+
+// Public receipt check. Talks to the Walrus aggregator directly, not to the
+// CipherWhisp backend, so the answer does not depend on trusting us.
+export default function VerifyPage() {
+  const [text, setText] = useState("");
+  const [aggregator, setAggregator] = useState(AGGREGATOR_BASE);
+  const [receipt, setReceipt] = useState<Receipt | null>(null);
+  const [result, setResult] = useState<VerifyResult | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function verify(input: string) {
+    setBusy(true);
+    setResult(null);
+    try {
+      const parsed = parseReceipt(input);
+      setReceipt(parsed);
+      setResult(await verifyReceipt(parsed, aggregator));
+      setError(null);
+    } catch (err) {
+      setReceipt(null);
+      setError(err instanceof Error ? err.message : "Verification failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function loadFile(file: File | undefined) {
+    if (!file) return;
+    const content = await file.text();
+    setText(content);
+    verify(content);
+  }
+
+  return (
+    <main className="min-h-screen p-8 max-w-2xl mx-auto text-gray-100">
+      <h1 className="text-3xl font-bold mb-2">Verify a receipt</h1>
+      <p className="text-sm text-gray-400 mb-6">
+        Paste or upload a CipherWhisp submission receipt. The encrypted report is downloaded straight from the Walrus
+        aggregator and hashed in your browser, then compared with the hash in the receipt.
+      </p>
+
+      <div className="space-y-3">
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder='{"format":"cipherwhisp-receipt", ...}'
+          className="w-full h-40 bg-black border border-gray-700 p-2 rounded text-xs font-mono"
+        />
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            onClick={() => verify(text)}
+            disabled={busy || !text.trim()}
+            className="px-4 py-2 rounded-lg border border-gray-600 hover:bg-gray-800 disabled:opacity-50"
+          >
+            {busy ? "Checking..." : "Verify"}
+          </button>
+          <label className="cursor-pointer text-xs text-cyan-400 hover:text-cyan-300">
+            Upload receipt file
+            <input
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => loadFile(e.target.files?.[0])}
+            />
+          </label>
+        </div>
+
+        <details className="text-xs">
+          <summary className="cursor-pointer text-gray-400">Aggregator</summary>
+          <input
+            value={aggregator}
+            onChange={(e) => setAggregator(e.target.value)}
+            className="mt-2 w-full bg-black border border-gray-700 px-2 py-1 rounded font-mono"
+          />
+        </details>
+      </div>
+
+      {error && <p className="text-red-500 text-sm mt-4">{error}</p>}
+
+      {receipt && result && (
+        <section className="mt-6 border border-gray-700 rounded-lg p-4 space-y-2 text-sm">
+          <p className="text-xs text-gray-400">
+            Blob ID: <span className="font-mono break-all text-gray-200">{receipt.blobId}</span>
+          </p>
+          <p className="text-xs text-gray-400">Submitted: {new Date(receipt.submittedAt).toLocaleString()}</p>
+
+          {!result.found ? (
+            <p className="text-red-400">Blob not found on the aggregator.</p>
+          ) : result.hashMatches ? (
+            <p className="text-green-400">
+              Blob found and its SHA-256 hash matches the receipt. It has not been changed.
+            </p>
+          ) : (
+            <>
+              <p className="text-red-400">Blob found but its hash does not match the receipt.</p>
+              <p className="text-xs text-gray-400">
+                Expected <span className="font-mono break-all">{receipt.sha256}</span>
+                <br />
+                Got <span className="font-mono break-all">{result.actualSha256}</span>
+              </p>
+            </>
+          )}
+        </section>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,333 @@
+"use client";
+
+import { useState } from "react";
+import { DEFAULT_MAX_FILE_MB, formatBytes } from "@/lib/attachments";
+import { LocationAnswer, approximatePosition, formatLocation, hasPosition, isLocationAnswer } from "@/lib/location";
+import { Field, formatAnswer } from "@/lib/schema";
+
+type Props = {
+  field: Field;
+  value: unknown;
+  required: boolean;
+  onChange: (value: unknown) => void;
+};
+
+const inputClass =
+  "border border-gray-600 bg-black rounded p-2 text-sm outline-none focus:border-cyan-400 focus:ring-1 focus:ring-cyan-500";
+
+// Current local time in the format of a date or datetime-local input
+function localNow(type: "date" | "datetime") {
+  const now = new Date();
+  const local = new Date(now.getTime() - now.getTimezoneOffset() * 60_000).toISOString();
+  return type === "date" ? local.slice(0, 10) : local.slice(0, 16);
+}
+
+// How an answer reads back on the review step, before files are uploaded
+export function reviewAnswer(field: Field, v: unknown): string {
+  if (field.type === "file") {
+    const files = (v as File[] | undefined) || [];
+    return files.length ? files.map((f) => `${f.name} (${formatBytes(f.size)})`).join(", ") : "No files";
+  }
+  return formatAnswer(field, v);
+}
+
+// One question as reporters see it, used by the submit page and the builder preview
+export default function FieldInput({ field, value, required, onChange }: Props) {
+  const [locating, setLocating] = useState(false);
+  const [locateError, setLocateError] = useState<string | null>(null);
+
+  const text = value === undefined || value === null ? "" : String(value);
+
+  const commonLabel = (
+    <label className="font-medium text-sm">
+      {field.label}
+      {required && <span className="text-red-400 ml-1">*</span>}
+    </label>
+  );
+
+  const help = field.helpText && <p className="text-xs text-gray-400 mt-1">{field.helpText}</p>;
+
+  async function addPosition(loc: LocationAnswer) {
+    setLocating(true);
+    try {
+      const { lat, lng } = await approximatePosition();
+      onChange({ ...loc, lat, lng });
+      setLocateError(null);
+    } catch (err) {
+      setLocateError(err instanceof Error ? err.message : "Could not get a location");
+    } finally {
+      setLocating(false);
+    }
+  }
+
+  switch (field.type) {
+    case "textarea":
+      return (
+        <div className="flex flex-col gap-1">
+          {commonLabel}
+          <textarea
+            required={required}
+            maxLength={field.maxLength}
+            className={`${inputClass} min-h-[120px]`}
+            value={text}
+            onChange={(e) => onChange(e.target.value)}
+          />
+          {field.maxLength !== undefined && (
+            <p className="text-xs text-gray-500 text-right">
+              {text.length} / {field.maxLength}
+            </p>
+          )}
+          {help}
+        </div>
+      );
+
+    case "text":
+    case "email":
+    case "url":
+      return (
+        <div className="flex flex-col gap-1">
+          {commonLabel}
+          <input
+            type={field.type}
+            placeholder={field.type === "url" ? "https://" : undefined}
+            required={required}
+            maxLength={field.maxLength}
+            className={inputClass}
+            value={text}
+            onChange={(e) => onChange(e.target.value)}
+          />
+          {help}
+        </div>
+      );
+
+    case "number":
+      return (
+        <div className="flex flex-col gap-1">
+          {commonLabel}
+          <input
+            type="number"
+            required={required}
+            min={field.min}
+            max={field.max}
+            className={inputClass}
+            value={text}
+            onChange={(e) => onChange(e.target.value)}
+          />
+          {field.min !== undefined || field.max !== undefined ? (
+            <p className="text-xs text-gray-400">
+              {field.min !== undefined && `Min ${field.min}`} {field.max !== undefined && `Max ${field.max}`}
+            </p>
+          ) : null}
+          {help}
+        </div>
+      );
+
+    case "select":
+      return (
+        <div className="flex flex-col gap-1">
+          {commonLabel}
+          <select required={required} className={inputClass} value={text} onChange={(e) => onChange(e.target.value)}>
+            <option value="">Select...</option>
+            {(field.options || []).map((opt) => (
+              <option key={opt} value={opt}>
+                {opt}
+              </option>
+            ))}
+          </select>
+          {help}
+        </div>
+      );
+
+    case "multi-select":
+      return (
+        <div className="flex flex-col gap-1">
+          {commonLabel}
+          <select
+            multiple
+            className={inputClass}
+            value={Array.isArray(value) ? (value as string[]) : []}
+            onChange={(e) => onChange(Array.from(e.target.selectedOptions).map((o) => o.value))}
+          >
+            {(field.options || []).map((opt) => (
+              <option key={opt} value={opt}>
+                {opt}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-400">Hold Ctrl or Cmd to select multiple.</p>
+          {help}
+        </div>
+      );
+
+    case "rating": {
+      const min = field.min ?? 1;
+      const max = field.max ?? 5;
+      const options = [];
+      for (let i = min; i <= max; i++) options.push(i);
+      return (
+        <div className="flex flex-col gap-1">
+          {commonLabel}
+          <div className="flex gap-2 mt-1">
+            {options.map((n) => (
+              <button
+                key={n}
+                type="button"
+                onClick={() => onChange(String(n))}
+                className={`w-8 h-8 rounded-full border text-sm ${
+                  text === String(n)
+                    ? "bg-cyan-500 text-black border-cyan-400"
+                    : "border-gray-600 text-gray-300 hover:border-cyan-400"
+                }`}
+              >
+                {n}
+              </button>
+            ))}
+          </div>
+          {help}
+        </div>
+      );
+    }
+
+    case "file": {
+      const files = (value as File[] | undefined) || [];
+      return (
+        <div className="flex flex-col gap-1">
+          {commonLabel}
+          <input
+            type="file"
+            multiple
+            accept={field.accept?.length ? field.accept.join(",") : undefined}
+            className="text-sm text-gray-300 file:mr-3 file:rounded file:border file:border-gray-600 file:bg-black file:px-3 file:py-1.5 file:text-gray-200"
+            onChange={(e) => onChange(Array.from(e.target.files || []))}
+          />
+          {files.length > 0 && (
+            <ul className="text-xs text-gray-300 space-y-0.5">
+              {files.map((f) => (
+                <li key={f.name}>
+                  {f.name} ({formatBytes(f.size)})
+                </li>
+              ))}
+            </ul>
+          )}
+          <p className="text-xs text-gray-400">
+            Max {field.maxSizeMb ?? DEFAULT_MAX_FILE_MB} MB per file
+            {field.accept?.length ? `. Allowed: ${field.accept.join(", ")}` : ""}. Files are encrypted in your browser
+            before upload.
+          </p>
+          {help}
+        </div>
+      );
+    }
+
+    case "date":
+    case "datetime": {
+      const limit = field.notFuture ? localNow(field.type) : undefined;
+      return (
+        <div className="flex flex-col gap-1">
+          {commonLabel}
+          <input
+            type={field.type === "date" ? "date" : "datetime-local"}
+            required={required}
+            min={field.earliest}
+            max={limit && field.latest ? [limit, field.latest].sort()[0] : (limit ?? field.latest)}
+            className={inputClass}
+            value={text}
+            onChange={(e) => onChange(e.target.value)}
+          />
+          {help}
+        </div>
+      );
+    }
+
+    case "radio":
+      return (
+        <div className="flex flex-col gap-1">
+          {commonLabel}
+          <div className="flex flex-col gap-1 mt-1">
+            {(field.options || []).map((opt) => (
+              <label key={opt} className="inline-flex items-center gap-2 text-sm">
+                <input
+                  type="radio"
+                  name={field.id}
+                  value={opt}
+                  checked={value === opt}
+                  onChange={() => onChange(opt)}
+                  className="border-gray-500 bg-black"
+                />
+                {opt}
+              </label>
+            ))}
+          </div>
+          {help}
+        </div>
+      );
+
+    case "location": {
+      const loc: LocationAnswer = isLocationAnswer(value) ? value : { place: "" };
+      return (
+        <div className="flex flex-col gap-1">
+          {commonLabel}
+          <input
+            type="text"
+            placeholder="City, site or area"
+            className={inputClass}
+            value={loc.place}
+            onChange={(e) => onChange({ ...loc, place: e.target.value })}
+          />
+          {field.allowPosition && (
+            <div className="flex flex-wrap items-center gap-3 text-xs text-gray-400">
+              {hasPosition(loc) ? (
+                <>
+                  <span>Approximate position {formatLocation({ ...loc, place: "" })}</span>
+                  <button
+                    type="button"
+                    onClick={() => onChange({ place: loc.place })}
+                    className="text-red-400 hover:text-red-300"
+                  >
+                    Remove
+                  </button>
+                </>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => addPosition(loc)}
+                  disabled={locating}
+                  className="px-2 py-1 rounded border border-gray-600 hover:bg-gray-800 disabled:opacity-50"
+                >
+                  {locating ? "Locating..." : "Add my approximate position"}
+                </button>
+              )}
+              <span>Rounded to about 10 km before it is encrypted.</span>
+            </div>
+          )}
+          {locateError && <p className="text-xs text-red-400">{locateError}</p>}
+          {help}
+        </div>
+      );
+    }
+
+    case "checkbox":
+      return (
+        <div className="flex items-start gap-2">
+          <input
+            id={field.id}
+            type="checkbox"
+            checked={!!value}
+            onChange={(e) => onChange(e.target.checked)}
+            className="mt-1 rounded border-gray-500 bg-black"
+            required={required}
+          />
+          <div className="flex flex-col">
+            <label htmlFor={field.id} className="font-medium text-sm">
+              {field.label}
+              {required && <span className="text-red-400 ml-1">*</span>}
+            </label>
+            {help}
+          </div>
+        </div>
+      );
+
+    default:
+      return null;
+  }
+}
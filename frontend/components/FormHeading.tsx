@@ -0,0 +1,22 @@
+import Markdown from "@/components/Markdown";
+import { FormSchema } from "@/lib/schema";
+
+type Props = {
+  schema: FormSchema;
+};
+
+export const DEFAULT_FORM_TITLE = "Submit anonymous report";
+
+// Logo, title and intro of a form as set in the builder
+export default function FormHeading({ schema }: Props) {
+  return (
+    <div className="mb-4 space-y-4">
+      {schema.branding?.logo && (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img src={schema.branding.logo} alt="" className="h-12 max-w-[200px] object-contain" />
+      )}
+      <h1 className="text-3xl font-bold">{schema.title || DEFAULT_FORM_TITLE}</h1>
+      {schema.intro && <Markdown text={schema.intro} className="text-gray-300" />}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { Fragment } from "react";
+import { Inline, parseMarkdown } from "@/lib/markdown";
+
+type Props = {
+  text: string;
+  className?: string;
+};
+
+const HEADING_CLASS = {
+  1: "text-xl font-semibold",
+  2: "text-lg font-semibold",
+  3: "text-base font-semibold",
+};
+
+function renderInline(nodes: Inline[]) {
+  return nodes.map((node, i) => {
+    switch (node.type) {
+      case "text":
+        return <Fragment key={i}>{node.text}</Fragment>;
+      case "code":
+        return (
+          <code key={i} className="rounded bg-gray-800 px-1 text-[0.9em]">
+            {node.text}
+          </code>
+        );
+      case "strong":
+        return <strong key={i}>{renderInline(node.children)}</strong>;
+      case "em":
+        return <em key={i}>{renderInline(node.children)}</em>;
+      case "link":
+        return (
+          <a
+            key={i}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-cyan-400 underline hover:text-cyan-300"
+          >
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+}
+
+// Form owner text (intro, thank-you message) rendered from the markdown subset in lib/markdown
+export default function Markdown({ text, className }: Props) {
+  return (
+    <div className={`space-y-3 text-sm ${className ?? ""}`}>
+      {parseMarkdown(text).map((block, i) => {
+        if (block.type === "heading") {
+          const Tag = `h${block.level + 1}` as "h2" | "h3" | "h4";
+          return (
+            <Tag key={i} className={HEADING_CLASS[block.level]}>
+              {renderInline(block.children)}
+            </Tag>
+          );
+        }
+        if (block.type === "list") {
+          const List = block.ordered ? "ol" : "ul";
+          return (
+            <List key={i} className={`pl-5 space-y-1 ${block.ordered ? "list-decimal" : "list-disc"}`}>
+              {block.items.map((item, j) => (
+                <li key={j}>{renderInline(item)}</li>
+              ))}
+            </List>
+          );
+        }
+        return <p key={i}>{renderInline(block.children)}</p>;
+      })}
+    </div>
+  );
+}
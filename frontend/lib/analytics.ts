@@ -0,0 +1,220 @@
+import { Field, FormSchema, MAX_RATING_POINTS, dateValue, hasOptions, isDateType } from "./schema";
+
+// Aggregates over decrypted reports for the inbox analytics view. Computed in
+// the browser from answers that are already decrypted; nothing leaves the page.
+
+export type ReportForStats = {
+  data: Record<string, unknown>;
+  // ISO time the backend stored the report, when known
+  storedAt?: string;
+};
+
+export type Bar = {
+  label: string;
+  count: number;
+};
+
+export type FieldStats =
+  | { kind: "choices"; field: Field; answered: number; bars: Bar[] }
+  | {
+      kind: "histogram";
+      field: Field;
+      answered: number;
+      bars: Bar[];
+      mean: number | null;
+      min: number | null;
+      max: number | null;
+    };
+
+export type TimeBucket = "day" | "week" | "month";
+
+export type Volume = {
+  bucket: TimeBucket;
+  bars: Bar[];
+  // reports without a usable time
+  undated: number;
+  // reports dated too far from the rest to chart, usually a mistyped year
+  outOfRange: number;
+};
+
+const MAX_BINS = 10;
+// Longest span charted; one answer in year 0202 must not draw thousands of empty months
+const MAX_MONTHS = 120;
+
+function isAnswered(v: unknown) {
+  return !(v === undefined || v === null || v === "" || (Array.isArray(v) && v.length === 0));
+}
+
+// Questions that get a chart: choices, checkboxes, numbers and ratings
+export function chartableFields(schema: FormSchema): Field[] {
+  return schema.fields.filter(
+    (f) => hasOptions(f.type) || f.type === "checkbox" || f.type === "number" || f.type === "rating"
+  );
+}
+
+// One bar per option in form order; multi-select answers count towards each picked option
+function choiceStats(field: Field, reports: ReportForStats[]): FieldStats {
+  const counts = new Map<string, number>();
+  if (field.type === "checkbox") {
+    counts.set("Yes", 0);
+    counts.set("No", 0);
+  } else {
+    (field.options || []).forEach((opt) => counts.set(opt, 0));
+  }
+
+  let answered = 0;
+  for (const { data } of reports) {
+    const v = data[field.id];
+    if (field.type === "checkbox") {
+      if (!(field.id in data)) continue;
+      answered++;
+      const key = v ? "Yes" : "No";
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+      continue;
+    }
+    if (!isAnswered(v)) continue;
+    answered++;
+    for (const picked of Array.isArray(v) ? v : [v]) {
+      const key = String(picked);
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+  }
+
+  return { kind: "choices", field, answered, bars: [...counts].map(([label, count]) => ({ label, count })) };
+}
+
+function histogramStats(field: Field, reports: ReportForStats[]): FieldStats {
+  const values = reports
+    .map(({ data }) => data[field.id])
+    .filter(isAnswered)
+    .map(Number)
+    .filter(Number.isFinite);
+
+  const empty = { kind: "histogram" as const, field, answered: 0, bars: [], mean: null, min: null, max: null };
+  if (!values.length && field.type !== "rating") return empty;
+
+  const min = values.length ? Math.min(...values) : null;
+  const max = values.length ? Math.max(...values) : null;
+  const mean = values.length ? values.reduce((sum, n) => sum + n, 0) / values.length : null;
+
+  // one bar per point on a rating scale, including ones nobody picked; a
+  // scale the schema check would not pass is binned like numbers instead
+  const scaleLo = field.min ?? 1;
+  const scaleHi = field.max ?? 5;
+  const pointScale =
+    field.type === "rating" &&
+    Number.isInteger(scaleLo) &&
+    Number.isInteger(scaleHi) &&
+    scaleHi - scaleLo < MAX_RATING_POINTS;
+
+  let bars: Bar[];
+  if (pointScale) {
+    bars = [];
+    for (let n = scaleLo; n <= scaleHi; n++) {
+      bars.push({ label: String(n), count: values.filter((x) => x === n).length });
+    }
+  } else if (!values.length) {
+    return empty;
+  } else {
+    const lo = min as number;
+    const hi = max as number;
+    const distinct = new Set(values).size;
+    const whole = values.every(Number.isInteger);
+    if (whole && hi - lo < MAX_BINS) {
+      bars = [];
+      for (let n = lo; n <= hi; n++) bars.push({ label: String(n), count: values.filter((x) => x === n).length });
+    } else {
+      const bins = Math.min(MAX_BINS, distinct);
+      const width = (hi - lo) / bins || 1;
+      const fmt = (n: number) => (whole ? String(Math.round(n)) : n.toFixed(1));
+      bars = Array.from({ length: bins }, (_, i) => ({
+        label: `${fmt(lo + i * width)}–${fmt(lo + (i + 1) * width)}`,
+        count: 0,
+      }));
+      for (const n of values) bars[Math.min(bins - 1, Math.floor((n - lo) / width))].count++;
+    }
+  }
+
+  return { kind: "histogram", field, answered: values.length, bars, mean, min, max };
+}
+
+export function fieldStats(field: Field, reports: ReportForStats[]): FieldStats {
+  return field.type === "number" || field.type === "rating"
+    ? histogramStats(field, reports)
+    : choiceStats(field, reports);
+}
+
+function bucketStart(t: number, bucket: TimeBucket): Date {
+  const d = new Date(t);
+  d.setHours(0, 0, 0, 0);
+  if (bucket === "week") d.setDate(d.getDate() - ((d.getDay() + 6) % 7));
+  if (bucket === "month") d.setDate(1);
+  return d;
+}
+
+function monthIndex(t: number) {
+  const d = new Date(t);
+  return d.getFullYear() * 12 + d.getMonth();
+}
+
+// Drops the times furthest from the median until the rest fit in MAX_MONTHS
+function chartableRange(sorted: number[]): number[] {
+  const median = sorted[Math.floor(sorted.length / 2)];
+  let lo = 0;
+  let hi = sorted.length - 1;
+  while (monthIndex(sorted[hi]) - monthIndex(sorted[lo]) >= MAX_MONTHS) {
+    if (median - sorted[lo] > sorted[hi] - median) lo++;
+    else hi--;
+  }
+  return sorted.slice(lo, hi + 1);
+}
+
+function nextBucket(d: Date, bucket: TimeBucket): Date {
+  const next = new Date(d);
+  if (bucket === "day") next.setDate(next.getDate() + 1);
+  else if (bucket === "week") next.setDate(next.getDate() + 7);
+  else next.setMonth(next.getMonth() + 1);
+  return next;
+}
+
+// Reports per day, week or month (picked from the time span), with empty periods filled in.
+// With a date question as `timeField` its answers are used, otherwise the time the report was stored.
+export function volumeOverTime(reports: ReportForStats[], timeField?: Field): Volume {
+  const times: number[] = [];
+  let undated = 0;
+  for (const report of reports) {
+    const t =
+      timeField && isDateType(timeField.type)
+        ? dateValue(report.data[timeField.id])
+        : report.storedAt
+          ? Date.parse(report.storedAt)
+          : null;
+    if (t === null || Number.isNaN(t)) undated++;
+    else times.push(t);
+  }
+  if (!times.length) return { bucket: "day", bars: [], undated, outOfRange: 0 };
+
+  const charted = chartableRange(times.sort((a, b) => a - b));
+  const outOfRange = times.length - charted.length;
+  const first = charted[0];
+  const last = charted[charted.length - 1];
+  const days = (last - first) / 86_400_000;
+  const bucket: TimeBucket = days <= 31 ? "day" : days <= 26 * 7 ? "week" : "month";
+
+  const counts = new Map<number, number>();
+  for (const t of charted) {
+    const key = bucketStart(t, bucket).getTime();
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+
+  const label = (d: Date) =>
+    bucket === "month"
+      ? d.toLocaleDateString(undefined, { year: "numeric", month: "short" })
+      : d.toLocaleDateString(undefined, { month: "short", day: "numeric" });
+
+  const bars: Bar[] = [];
+  for (let d = bucketStart(first, bucket); d.getTime() <= last; d = nextBucket(d, bucket)) {
+    bars.push({ label: label(d), count: counts.get(d.getTime()) ?? 0 });
+  }
+  return { bucket, bars, undated, outOfRange };
+}
@@ -0,0 +1,239 @@
+import { fromUtf8, sha256Hex, utf8 } from "./bytes";
+import { StoredCase } from "./cases";
+import { Submission } from "./inbox";
+import { Recipient } from "./keys";
+import { AGGREGATOR_BASE, fetchBlob } from "./walrus";
+import { createZip, readZip } from "./zip";
+
+// Offline archive of everything the backend holds for one form, for legal
+// hold and later audits. Reports and case records stay encrypted: the archive
+// plus the private key is all that is needed to read them again, with no
+// backend or Walrus access.
+//
+// Each ciphertext is its own file holding the exact envelope text, so its
+// SHA-256 matches the reporter's receipt and the blob on Walrus. The manifest
+// lists every file with its hash and size; readArchive() refuses an archive
+// where any of them differ.
+//
+// A blob list leaves out the reports and attachments, which are Walrus blobs,
+// and keeps only their hashes. Opening one fetches each blob by id straight
+// from an aggregator and checks it against the manifest. Blobs are only kept
+// on Walrus for a number of epochs, so reports that cannot be fetched are
+// listed as unavailable and the rest of the archive still opens.
+
+export const ARCHIVE_FORMAT = "cipherwhisp-archive";
+export const ARCHIVE_TYPE = "application/zip";
+
+// "walrus" archives are blob lists
+export type ArchiveBlobs = "included" | "walrus";
+
+export type ArchiveFile = {
+  path: string;
+  sha256: string;
+  size: number;
+};
+
+export type ArchiveManifest = {
+  format: typeof ARCHIVE_FORMAT;
+  version: 1;
+  formId: string;
+  exportedAt: string;
+  blobs: ArchiveBlobs;
+  schema: ArchiveFile;
+  recipients: ArchiveFile;
+  reports: (ArchiveFile & { seq: number; blobId: string; storedAt?: string })[];
+  cases: (ArchiveFile & { blobId: string })[];
+  attachments: (ArchiveFile & { blobId: string })[];
+};
+
+// An attachment as /attachments/{formId}/{blobId} returns it
+export type EncryptedAttachment = {
+  blobId: string;
+  encrypted: string;
+};
+
+export type FormArchive = {
+  manifest: ArchiveManifest;
+  schema: unknown;
+  recipients: Recipient[];
+  submissions: Submission[];
+  cases: StoredCase[];
+  // only the attachments included in the archive; see fetchArchivedBlob()
+  attachments: EncryptedAttachment[];
+  // reports of a blob list that could not be fetched or failed their hash check
+  unavailable: UnavailableReport[];
+};
+
+export type UnavailableReport = {
+  seq: number;
+  blobId: string;
+  reason: string;
+};
+
+export type ArchiveContents = Omit<FormArchive, "manifest" | "unavailable"> & { formId: string };
+
+const README = `CipherWhisp form archive
+
+manifest.json lists every file in this archive with its SHA-256 hash.
+reports/ holds each report exactly as it was stored on Walrus, still encrypted.
+cases/ holds the encrypted case records (status, assignee, tags, notes).
+attachments/ holds the encrypted file attachments.
+A blob list has no reports/ or attachments/; they are fetched from Walrus by
+the blob ids in the manifest.
+
+The hash of a report file matches the reporter's receipt and can be checked
+with any SHA-256 tool. To read the reports, open this archive in the admin
+inbox and load the form's private key.
+`;
+
+export function archiveFileName(formId: string, blobs: ArchiveBlobs) {
+  const kind = blobs === "walrus" ? "bloblist" : "archive";
+  return `cipherwhisp-${formId}-${kind}-${new Date().toISOString().slice(0, 10)}.zip`;
+}
+
+async function archiveFile(files: Record<string, Uint8Array<ArrayBuffer>> | null, path: string, text: string) {
+  const data = utf8(text);
+  if (files) files[path] = data;
+  return { path, sha256: await sha256Hex(data), size: data.length };
+}
+
+export async function createArchive(
+  { formId, schema, recipients, submissions, cases, attachments }: ArchiveContents,
+  blobs: ArchiveBlobs = "included"
+): Promise<Uint8Array<ArrayBuffer>> {
+  const files: Record<string, Uint8Array<ArrayBuffer>> = {};
+  const blobFiles = blobs === "included" ? files : null;
+
+  const manifest: ArchiveManifest = {
+    format: ARCHIVE_FORMAT,
+    version: 1,
+    formId,
+    exportedAt: new Date().toISOString(),
+    blobs,
+    schema: await archiveFile(files, "schema.json", JSON.stringify(schema, null, 2)),
+    recipients: await archiveFile(files, "recipients.json", JSON.stringify(recipients, null, 2)),
+    reports: [],
+    cases: [],
+    attachments: [],
+  };
+  for (const sub of submissions) {
+    const file = await archiveFile(blobFiles, `reports/${sub.blobId}.txt`, sub.encrypted);
+    manifest.reports.push({ ...file, seq: sub.seq, blobId: sub.blobId, storedAt: sub.storedAt });
+  }
+  for (const c of cases) {
+    const file = await archiveFile(files, `cases/${c.blobId}.txt`, c.encrypted);
+    manifest.cases.push({ ...file, blobId: c.blobId });
+  }
+  for (const a of attachments) {
+    const file = await archiveFile(blobFiles, `attachments/${a.blobId}.txt`, a.encrypted);
+    manifest.attachments.push({ ...file, blobId: a.blobId });
+  }
+
+  return createZip([
+    { name: "manifest.json", data: utf8(JSON.stringify(manifest, null, 2)) },
+    { name: "README.txt", data: utf8(README) },
+    ...Object.entries(files).map(([name, data]) => ({ name, data })),
+  ]);
+}
+
+function isArchiveFile(value: unknown): value is ArchiveFile {
+  const f = value as Partial<ArchiveFile> | null;
+  return (
+    !!f &&
+    typeof f.path === "string" &&
+    typeof f.sha256 === "string" &&
+    /^[0-9a-f]{64}$/.test(f.sha256) &&
+    typeof f.size === "number"
+  );
+}
+
+function parseManifest(text: string): ArchiveManifest {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("Archive manifest is not valid JSON");
+  }
+
+  const m = raw as Partial<ArchiveManifest> | null;
+  if (!m || m.format !== ARCHIVE_FORMAT) throw new Error("Not a CipherWhisp form archive");
+  if (m.version !== 1) throw new Error(`Unsupported archive version ${String(m.version)}`);
+  if (
+    typeof m.formId !== "string" ||
+    typeof m.exportedAt !== "string" ||
+    (m.blobs !== "included" && m.blobs !== "walrus") ||
+    !isArchiveFile(m.schema) ||
+    !isArchiveFile(m.recipients) ||
+    !Array.isArray(m.reports) ||
+    !m.reports.every((r) => isArchiveFile(r) && typeof r.blobId === "string" && typeof r.seq === "number") ||
+    !Array.isArray(m.cases) ||
+    !m.cases.every((c) => isArchiveFile(c) && typeof c.blobId === "string") ||
+    !Array.isArray(m.attachments) ||
+    !m.attachments.every((a) => isArchiveFile(a) && typeof a.blobId === "string")
+  ) {
+    throw new Error("Archive manifest is incomplete");
+  }
+  return m as ArchiveManifest;
+}
+
+async function checkHash(file: ArchiveFile, bytes: Uint8Array<ArrayBuffer>, source: string): Promise<string> {
+  if (bytes.length !== file.size || (await sha256Hex(bytes)) !== file.sha256) {
+    throw new Error(`${source} does not match its hash in the manifest`);
+  }
+  return fromUtf8(bytes);
+}
+
+// Fetches a blob listed in the manifest from a Walrus aggregator and checks its hash
+export async function fetchArchivedBlob(
+  file: ArchiveFile & { blobId: string },
+  aggregator: string = AGGREGATOR_BASE
+): Promise<string> {
+  const blob = await fetchBlob(file.blobId, aggregator);
+  if (!blob) throw new Error(`Blob ${file.blobId} was not found on the aggregator; it may have expired`);
+  return checkHash(file, new Uint8Array(blob), `Blob ${file.blobId}`);
+}
+
+// Unpacks an archive and checks every file against the manifest hashes. Report
+// blobs missing from a blob list are fetched from the aggregator.
+export async function readArchive(data: Uint8Array, aggregator: string = AGGREGATOR_BASE): Promise<FormArchive> {
+  const entries = new Map(readZip(data).map((e) => [e.name, e.data]));
+  const manifestData = entries.get("manifest.json");
+  if (!manifestData) throw new Error("Archive has no manifest.json");
+  const manifest = parseManifest(fromUtf8(manifestData));
+
+  async function verified(file: ArchiveFile): Promise<string> {
+    const bytes = entries.get(file.path);
+    if (!bytes) throw new Error(`Archive is missing ${file.path}`);
+    return checkHash(file, bytes, file.path);
+  }
+
+  const schema = JSON.parse(await verified(manifest.schema)) as unknown;
+  const recipients = JSON.parse(await verified(manifest.recipients)) as Recipient[];
+  const submissions: Submission[] = [];
+  const unavailable: UnavailableReport[] = [];
+  for (const r of manifest.reports) {
+    let encrypted: string;
+    if (manifest.blobs === "walrus") {
+      try {
+        encrypted = await fetchArchivedBlob(r, aggregator);
+      } catch (err) {
+        const reason = err instanceof Error ? err.message : "Could not fetch the blob";
+        unavailable.push({ seq: r.seq, blobId: r.blobId, reason });
+        continue;
+      }
+    } else {
+      encrypted = await verified(r);
+    }
+    submissions.push({ seq: r.seq, blobId: r.blobId, storedAt: r.storedAt, encrypted });
+  }
+  const cases: StoredCase[] = [];
+  for (const c of manifest.cases) {
+    cases.push({ blobId: c.blobId, encrypted: await verified(c) });
+  }
+  const attachments: EncryptedAttachment[] = [];
+  for (const a of manifest.blobs === "walrus" ? [] : manifest.attachments) {
+    attachments.push({ blobId: a.blobId, encrypted: await verified(a) });
+  }
+
+  return { manifest, schema, recipients, submissions, cases, attachments, unavailable };
+}
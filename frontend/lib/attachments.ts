@@ -0,0 +1,119 @@
+import { fromBase64, toBase64 } from "./bytes";
+
+// File attachments are encrypted in the browser with their own AES-GCM key
+// and uploaded as separate Walrus blobs. The key, nonce and file metadata end
+// up in an AttachmentRef inside the submission payload, so they are only ever
+// readable through the submission's envelope.
+
+export const DEFAULT_MAX_FILE_MB = 10;
+
+export type AttachmentRef = {
+  blobId: string;
+  name: string;
+  type: string;
+  size: number;
+  key: string; // base64 raw AES-GCM key
+  iv: string; // base64 nonce
+};
+
+export type EncryptedFile = {
+  encrypted: string;
+  ref: Omit<AttachmentRef, "blobId">;
+};
+
+// Refs come from reporter-controlled payloads, so every field used later is checked
+export function isAttachmentRef(value: unknown): value is AttachmentRef {
+  if (typeof value !== "object" || value === null) return false;
+  const r = value as Record<string, unknown>;
+  return (
+    typeof r.blobId === "string" &&
+    typeof r.name === "string" &&
+    typeof r.type === "string" &&
+    typeof r.size === "number" &&
+    Number.isFinite(r.size) &&
+    r.size >= 0 &&
+    typeof r.key === "string" &&
+    typeof r.iv === "string"
+  );
+}
+
+// accept entries are MIME types, optionally with a wildcard subtype ("image/*")
+export function mimeAllowed(type: string, accept?: string[]) {
+  if (!accept || accept.length === 0) return true;
+  const t = type.toLowerCase();
+  return accept.some((a) => {
+    const rule = a.trim().toLowerCase();
+    if (rule.endsWith("/*")) return t.startsWith(rule.slice(0, -1));
+    return rule === t;
+  });
+}
+
+// Returns an error message, or null when the file is acceptable
+export function checkFile(file: File, opts: { maxSizeMb?: number; accept?: string[] }): string | null {
+  const maxMb = opts.maxSizeMb ?? DEFAULT_MAX_FILE_MB;
+  if (file.size > maxMb * 1024 * 1024) {
+    return `"${file.name}" is larger than ${maxMb} MB.`;
+  }
+  if (!mimeAllowed(file.type, opts.accept)) {
+    return `"${file.name}" is not an allowed file type.`;
+  }
+  return null;
+}
+
+export async function encryptFile(file: File): Promise<EncryptedFile> {
+  const key = await window.crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, [
+    "encrypt",
+    "decrypt",
+  ]);
+  const iv = window.crypto.getRandomValues(new Uint8Array(12));
+  const ct = await window.crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, await file.arrayBuffer());
+  const rawKey = await window.crypto.subtle.exportKey("raw", key);
+
+  return {
+    encrypted: toBase64(ct),
+    ref: {
+      name: file.name,
+      type: file.type || "application/octet-stream",
+      size: file.size,
+      key: toBase64(rawKey),
+      iv: toBase64(iv),
+    },
+  };
+}
+
+// Types the admin inbox renders inline. SVG and HTML are left out since they
+// can carry script.
+const PREVIEW_TYPES = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "audio/mpeg",
+  "audio/ogg",
+  "audio/wav",
+  "video/mp4",
+  "video/webm",
+  "application/pdf",
+];
+
+// The type in a ref is whatever the reporter claimed. It is only used when
+// the question accepts it and it is one the inbox knows how to preview;
+// anything else decrypts as an opaque download.
+export function previewType(ref: AttachmentRef, accept?: string[]): string | null {
+  const type = ref.type.trim().toLowerCase();
+  return PREVIEW_TYPES.includes(type) && mimeAllowed(type, accept) ? type : null;
+}
+
+export async function decryptAttachment(ref: AttachmentRef, encrypted: string, accept?: string[]): Promise<Blob> {
+  const key = await window.crypto.subtle.importKey("raw", fromBase64(ref.key), { name: "AES-GCM" }, false, [
+    "decrypt",
+  ]);
+  const buf = await window.crypto.subtle.decrypt({ name: "AES-GCM", iv: fromBase64(ref.iv) }, key, fromBase64(encrypted));
+  return new Blob([buf], { type: previewType(ref, accept) ?? "application/octet-stream" });
+}
+
+export function formatBytes(size: number) {
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`;
+  return `${(size / (1024 * 1024)).toFixed(1)} MB`;
+}
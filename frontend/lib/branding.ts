@@ -0,0 +1,46 @@
+// Per-form look of the reporter page. The logo is embedded in the schema as a
+// small data URL rather than linked, so opening a form never makes the
+// reporter's browser contact a server chosen by the form owner.
+
+export const DEFAULT_ACCENT = "#06b6d4";
+export const LOGO_TYPES = ["image/png", "image/jpeg", "image/webp"];
+export const MAX_LOGO_KB = 100;
+
+export type FormBranding = {
+  accent?: string;
+  logo?: string;
+};
+
+export function isHexColor(v: unknown): v is string {
+  return typeof v === "string" && /^#[0-9a-f]{6}$/i.test(v);
+}
+
+export function isLogoDataUrl(v: unknown): v is string {
+  if (typeof v !== "string") return false;
+  const m = /^data:([a-z/]+);base64,([A-Za-z0-9+/]+=*)$/.exec(v);
+  return !!m && LOGO_TYPES.includes(m[1]) && (m[2].length * 3) / 4 <= MAX_LOGO_KB * 1024;
+}
+
+// Black or white, whichever reads better on the accent colour
+export function textOn(hex: string) {
+  const [r, g, b] = [1, 3, 5].map((i) => {
+    const c = parseInt(hex.slice(i, i + 2), 16) / 255;
+    return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b > 0.179 ? "#000000" : "#ffffff";
+}
+
+export function readLogo(file: File): Promise<string> {
+  if (!LOGO_TYPES.includes(file.type)) {
+    return Promise.reject(new Error("Logo must be a PNG, JPEG or WebP image"));
+  }
+  if (file.size > MAX_LOGO_KB * 1024) {
+    return Promise.reject(new Error(`Logo must be at most ${MAX_LOGO_KB} KB`));
+  }
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(new Error("Could not read the logo file"));
+    reader.readAsDataURL(file);
+  });
+}
@@ -0,0 +1,32 @@
+// Small helpers for moving binary data in and out of JSON.
+// btoa(String.fromCharCode(...bytes)) blows the call stack on large inputs,
+// so we build the binary string in chunks.
+
+const CHUNK = 0x8000;
+
+export function toBase64(data: ArrayBuffer | Uint8Array): string {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK));
+  }
+  return btoa(binary);
+}
+
+export function fromBase64(b64: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(b64), (c) => c.charCodeAt(0));
+}
+
+export function utf8(text: string): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(text);
+}
+
+export function fromUtf8(data: ArrayBuffer | Uint8Array): string {
+  return new TextDecoder().decode(data);
+}
+
+export async function sha256Hex(data: string | Uint8Array<ArrayBuffer> | ArrayBuffer): Promise<string> {
+  const input = typeof data === "string" ? utf8(data) : data;
+  const digest = new Uint8Array(await window.crypto.subtle.digest("SHA-256", input));
+  return Array.from(digest, (b) => b.toString(16).padStart(2, "0")).join("");
+}
@@ -0,0 +1,90 @@
+import { EnvelopeRecipient, decryptEnvelope, encryptEnvelope } from "./envelope";
+
+// Per-report case metadata for the admin inbox. It is encrypted for the form
+// recipients exactly like a report, so the backend only ever holds an opaque
+// envelope per report.
+
+export const CASE_STATUSES = ["new", "triaged", "investigating", "closed"] as const;
+
+export type CaseStatus = (typeof CASE_STATUSES)[number];
+
+export type CaseNote = {
+  body: string;
+  author?: string;
+  at: string;
+};
+
+export type CaseRecord = {
+  status: CaseStatus;
+  assignee: string;
+  tags: string[];
+  notes: CaseNote[];
+};
+
+// A case record as the backend stores it, encrypted to the form recipients
+export type StoredCase = {
+  blobId: string;
+  encrypted: string;
+};
+
+export type CaseFilter = {
+  status: CaseStatus | "";
+  tag: string;
+  assignee: string;
+};
+
+// Assignee filter value matching reports nobody has picked up
+export const UNASSIGNED = "__unassigned";
+
+export const EMPTY_CASE_FILTER: CaseFilter = { status: "", tag: "", assignee: "" };
+
+export function emptyCase(): CaseRecord {
+  return { status: "new", assignee: "", tags: [], notes: [] };
+}
+
+export function normalizeTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  for (const t of tags) {
+    const tag = t.trim().toLowerCase();
+    if (tag) seen.add(tag);
+  }
+  return [...seen].sort();
+}
+
+export async function encryptCase(recipients: EnvelopeRecipient[], record: CaseRecord): Promise<string> {
+  return encryptEnvelope(recipients, JSON.stringify(record));
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+// Notes the inbox can render; anything else is dropped
+function readNotes(raw: unknown): CaseNote[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((n): CaseNote[] =>
+    isObject(n) && typeof n.body === "string" && typeof n.at === "string"
+      ? [{ body: n.body, author: typeof n.author === "string" ? n.author : undefined, at: n.at }]
+      : []
+  );
+}
+
+// Anyone with the admin token can write case records, so nothing in one is trusted
+export async function decryptCase(privateKey: CryptoKey, encrypted: string, kid?: string): Promise<CaseRecord> {
+  const raw: unknown = JSON.parse(await decryptEnvelope(privateKey, encrypted, kid));
+  if (!isObject(raw)) throw new Error("Case record is malformed");
+  return {
+    status: CASE_STATUSES.includes(raw.status as CaseStatus) ? (raw.status as CaseStatus) : "new",
+    assignee: typeof raw.assignee === "string" ? raw.assignee : "",
+    tags: Array.isArray(raw.tags) ? normalizeTags(raw.tags.filter((t): t is string => typeof t === "string")) : [],
+    notes: readNotes(raw.notes),
+  };
+}
+
+export function matchesCaseFilter(record: CaseRecord, filter: CaseFilter) {
+  if (filter.status && record.status !== filter.status) return false;
+  if (filter.tag && !record.tags.includes(filter.tag)) return false;
+  if (filter.assignee === UNASSIGNED) return !record.assignee;
+  if (filter.assignee && record.assignee !== filter.assignee) return false;
+  return true;
+}
@@ -0,0 +1,116 @@
+// Show-if / required-if rules between form fields.
+//
+// A rule is a list of conditions on earlier answers that must all hold. Rules
+// are evaluated in field order, and a field that is hidden counts as
+// unanswered for every rule after it, so branches nest naturally.
+
+export const CONDITION_OPERATORS = {
+  equals: "is",
+  not_equals: "is not",
+  includes: "includes",
+  gt: "is greater than",
+  lt: "is less than",
+  answered: "is answered",
+  not_answered: "is not answered",
+} as const;
+
+export type ConditionOperator = keyof typeof CONDITION_OPERATORS;
+
+export type Condition = {
+  field: string;
+  op: ConditionOperator;
+  value?: string;
+};
+
+export type ConditionalField = {
+  id: string;
+  required?: boolean;
+  showIf?: Condition[];
+  requiredIf?: Condition[];
+};
+
+export function operatorNeedsValue(op: ConditionOperator) {
+  return op !== "answered" && op !== "not_answered";
+}
+
+function isAnswered(v: unknown) {
+  if (v === undefined || v === null || v === false) return false;
+  if (Array.isArray(v)) return v.length > 0;
+  return String(v).trim() !== "";
+}
+
+export function conditionMet(cond: Condition, answers: Record<string, unknown>): boolean {
+  const expected = (cond.value ?? "").trim();
+  let v = answers[cond.field];
+  // checkboxes compare as "true" / "false", unticked included
+  if ((expected === "true" || expected === "false") && (typeof v === "boolean" || v === undefined)) {
+    v = String(!!v);
+  }
+
+  switch (cond.op) {
+    case "answered":
+      return isAnswered(v);
+    case "not_answered":
+      return !isAnswered(v);
+    case "equals":
+      return Array.isArray(v) ? v.map(String).includes(expected) : isAnswered(v) && String(v) === expected;
+    case "not_equals":
+      return Array.isArray(v) ? !v.map(String).includes(expected) : !isAnswered(v) || String(v) !== expected;
+    case "includes":
+      return Array.isArray(v)
+        ? v.map(String).includes(expected)
+        : isAnswered(v) && String(v).toLowerCase().includes(expected.toLowerCase());
+    case "gt":
+    case "lt": {
+      if (!isAnswered(v) || expected === "") return false;
+      const num = Number(v);
+      const bound = Number(expected);
+      if (Number.isNaN(num) || Number.isNaN(bound)) return false;
+      return cond.op === "gt" ? num > bound : num < bound;
+    }
+    default:
+      return false;
+  }
+}
+
+function allMet(conditions: Condition[] | undefined, answers: Record<string, unknown>) {
+  return !conditions?.length || conditions.every((c) => conditionMet(c, answers));
+}
+
+// Ids of the fields the reporter currently sees
+export function visibleFieldIds(fields: ConditionalField[], values: Record<string, unknown>): Set<string> {
+  const visible = new Set<string>();
+  const answers: Record<string, unknown> = {};
+  for (const field of fields) {
+    if (!allMet(field.showIf, answers)) continue;
+    visible.add(field.id);
+    answers[field.id] = values[field.id];
+  }
+  return visible;
+}
+
+export function isRequired(
+  field: ConditionalField,
+  fields: ConditionalField[],
+  values: Record<string, unknown>
+): boolean {
+  if (field.required) return true;
+  if (!field.requiredIf?.length) return false;
+
+  const visible = visibleFieldIds(fields, values);
+  const answers = Object.fromEntries([...visible].map((id) => [id, values[id]]));
+  return allMet(field.requiredIf, answers);
+}
+
+// Rename references after field ids have been normalized and drop values the
+// operator does not use. Conditions on unknown or later fields are kept, so
+// the schema check rejects them instead of the rule vanishing unnoticed.
+export function normalizeConditions(
+  conditions: Condition[] | undefined,
+  renamed: Record<string, string> = {}
+): Condition[] | undefined {
+  if (!conditions?.length) return undefined;
+  return conditions
+    .map((c) => ({ ...c, field: renamed[c.field] ?? c.field, value: c.value?.trim() }))
+    .map((c) => (operatorNeedsValue(c.op) ? c : { field: c.field, op: c.op }));
+}
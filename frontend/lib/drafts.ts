@@ -0,0 +1,130 @@
+import { fromBase64, fromUtf8, toBase64, utf8 } from "./bytes";
+import { PBKDF2_ITERATIONS, deriveAesKey, randomSalt } from "./kdf";
+
+// Reporter draft autosave.
+//
+// Unsent answers are kept in localStorage, encrypted with AES-GCM under a key
+// derived from a PIN the reporter picks. The derived key only lives in memory
+// for the open tab; restoring after a reload asks for the PIN again. Drafts
+// expire a fixed time after the last save and are dropped on the next visit.
+// Attached files are not kept, they have to be picked again.
+
+export const DRAFT_FORMAT = "cipherwhisp-draft";
+export const MIN_PIN_LENGTH = 6;
+export const DRAFT_TTL_HOURS = 48;
+
+export type DraftData = {
+  values: Record<string, unknown>;
+  step: number;
+};
+
+type StoredDraft = {
+  format: typeof DRAFT_FORMAT;
+  version: 1;
+  formId: string;
+  savedAt: string;
+  expiresAt: string;
+  kdf: { iterations: number; salt: string };
+  iv: string;
+  ciphertext: string;
+};
+
+export type DraftSession = {
+  key: CryptoKey;
+  salt: Uint8Array<ArrayBuffer>;
+  iterations: number;
+};
+
+export type DraftInfo = Pick<StoredDraft, "savedAt" | "expiresAt">;
+
+function storageKey(formId: string) {
+  return `${DRAFT_FORMAT}:${formId}`;
+}
+
+function additionalData(formId: string) {
+  return utf8(`${DRAFT_FORMAT}:1:${formId}`);
+}
+
+function readStored(formId: string): StoredDraft | null {
+  const text = window.localStorage.getItem(storageKey(formId));
+  if (!text) return null;
+
+  try {
+    const draft = JSON.parse(text) as StoredDraft;
+    if (draft.format !== DRAFT_FORMAT || draft.version !== 1 || draft.formId !== formId) throw new Error();
+    if (Date.parse(draft.expiresAt) <= Date.now()) throw new Error();
+    return draft;
+  } catch {
+    wipeDraft(formId);
+    return null;
+  }
+}
+
+// Files cannot be stored; anything holding File objects is left out
+function storableValues(values: Record<string, unknown>) {
+  const isFile = (v: unknown) => typeof File !== "undefined" && v instanceof File;
+  return Object.fromEntries(
+    Object.entries(values).filter(([, v]) => !isFile(v) && !(Array.isArray(v) && v.some(isFile)))
+  );
+}
+
+export function findDraft(formId: string): DraftInfo | null {
+  const draft = readStored(formId);
+  return draft && { savedAt: draft.savedAt, expiresAt: draft.expiresAt };
+}
+
+export function wipeDraft(formId: string) {
+  window.localStorage.removeItem(storageKey(formId));
+}
+
+export async function startDraft(pin: string): Promise<DraftSession> {
+  if (pin.length < MIN_PIN_LENGTH) {
+    throw new Error(`PIN must be at least ${MIN_PIN_LENGTH} characters.`);
+  }
+  const salt = randomSalt();
+  return { key: await deriveAesKey(pin, salt), salt, iterations: PBKDF2_ITERATIONS };
+}
+
+export async function saveDraft(formId: string, session: DraftSession, data: DraftData): Promise<DraftInfo> {
+  const iv = window.crypto.getRandomValues(new Uint8Array(12));
+  const ct = await window.crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: additionalData(formId) },
+    session.key,
+    utf8(JSON.stringify({ ...data, values: storableValues(data.values) }))
+  );
+
+  const savedAt = new Date();
+  const draft: StoredDraft = {
+    format: DRAFT_FORMAT,
+    version: 1,
+    formId,
+    savedAt: savedAt.toISOString(),
+    expiresAt: new Date(savedAt.getTime() + DRAFT_TTL_HOURS * 3600_000).toISOString(),
+    kdf: { iterations: session.iterations, salt: toBase64(session.salt) },
+    iv: toBase64(iv),
+    ciphertext: toBase64(ct),
+  };
+  window.localStorage.setItem(storageKey(formId), JSON.stringify(draft));
+  return { savedAt: draft.savedAt, expiresAt: draft.expiresAt };
+}
+
+export async function restoreDraft(formId: string, pin: string): Promise<{ session: DraftSession; data: DraftData }> {
+  const draft = readStored(formId);
+  if (!draft) throw new Error("No saved draft on this device");
+
+  const salt = fromBase64(draft.kdf.salt);
+  const key = await deriveAesKey(pin, salt, draft.kdf.iterations);
+  let plain: ArrayBuffer;
+  try {
+    plain = await window.crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: fromBase64(draft.iv), additionalData: additionalData(formId) },
+      key,
+      fromBase64(draft.ciphertext)
+    );
+  } catch {
+    throw new Error("Wrong PIN");
+  }
+
+  const data = JSON.parse(fromUtf8(plain)) as DraftData;
+  return { session: { key, salt, iterations: draft.kdf.iterations }, data };
+}
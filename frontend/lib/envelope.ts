@@ -0,0 +1,129 @@
+import { fromBase64, fromUtf8, toBase64, utf8 } from "./bytes";
+
+// Hybrid envelope used for every submission.
+//
+// RSA-OAEP with a 2048 bit key can only encrypt ~190 bytes, so the payload is
+// encrypted with a fresh AES-GCM content key and only that key is wrapped
+// with the recipients' public keys. The envelope is stored as JSON text on
+// Walrus.
+//
+// v1 wrapped the content key for a single form key. v2 wraps it once per
+// recipient so any listed admin can open the report with their own key.
+// Older submissions were raw RSA-OAEP ciphertext stored as plain base64.
+// decryptEnvelope() reads all three.
+
+export const ENVELOPE_VERSION = 2;
+export const ENVELOPE_ALG = "RSA-OAEP-256+A256GCM";
+
+export type EnvelopeRecipient = {
+  kid: string; // key fingerprint, see keyFingerprint()
+  key: CryptoKey; // RSA-OAEP public key
+};
+
+export type EnvelopeV1 = {
+  v: 1;
+  alg: typeof ENVELOPE_ALG;
+  key: string; // base64 RSA-OAEP wrapped AES key
+  iv: string; // base64 12 byte AES-GCM nonce
+  ct: string; // base64 AES-GCM ciphertext
+};
+
+export type EnvelopeV2 = {
+  v: 2;
+  alg: typeof ENVELOPE_ALG;
+  keys: { kid: string; key: string }[];
+  iv: string;
+  ct: string;
+};
+
+function isEnvelope(value: unknown): value is EnvelopeV1 | EnvelopeV2 {
+  if (typeof value !== "object" || value === null) return false;
+  const e = value as Record<string, unknown>;
+  if (e.alg !== ENVELOPE_ALG || typeof e.iv !== "string" || typeof e.ct !== "string") return false;
+  if (e.v === 1) return typeof e.key === "string";
+  if (e.v === 2) {
+    return Array.isArray(e.keys) && e.keys.every((k) => typeof k?.kid === "string" && typeof k?.key === "string");
+  }
+  return false;
+}
+
+export async function encryptEnvelope(recipients: EnvelopeRecipient[], plaintext: string): Promise<string> {
+  if (recipients.length === 0) {
+    throw new Error("No recipients to encrypt for");
+  }
+
+  const contentKey = await window.crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, [
+    "encrypt",
+    "decrypt",
+  ]);
+  const iv = window.crypto.getRandomValues(new Uint8Array(12));
+
+  const ct = await window.crypto.subtle.encrypt({ name: "AES-GCM", iv }, contentKey, utf8(plaintext));
+  const rawKey = await window.crypto.subtle.exportKey("raw", contentKey);
+
+  const keys: EnvelopeV2["keys"] = [];
+  for (const r of recipients) {
+    const wrapped = await window.crypto.subtle.encrypt({ name: "RSA-OAEP" }, r.key, rawKey);
+    keys.push({ kid: r.kid, key: toBase64(wrapped) });
+  }
+
+  const envelope: EnvelopeV2 = {
+    v: ENVELOPE_VERSION,
+    alg: ENVELOPE_ALG,
+    keys,
+    iv: toBase64(iv),
+    ct: toBase64(ct),
+  };
+  return JSON.stringify(envelope);
+}
+
+async function unwrapContentKey(privateKey: CryptoKey, wrappedKeys: string[]): Promise<ArrayBuffer> {
+  for (const wrapped of wrappedKeys) {
+    try {
+      return await window.crypto.subtle.decrypt({ name: "RSA-OAEP" }, privateKey, fromBase64(wrapped));
+    } catch {
+      // not wrapped for this key, try the next one
+    }
+  }
+  throw new Error("This key is not a recipient of the envelope");
+}
+
+// kid is the caller's key fingerprint. It is only used to try the matching
+// wrapped key first; every entry is tried if it is missing or stale.
+export async function decryptEnvelope(privateKey: CryptoKey, encrypted: string, kid?: string): Promise<string> {
+  let parsed: unknown = null;
+  if (encrypted.trimStart().startsWith("{")) {
+    try {
+      parsed = JSON.parse(encrypted);
+    } catch {
+      throw new Error("Malformed envelope");
+    }
+  }
+
+  // Legacy: the whole payload was RSA-OAEP encrypted and base64 encoded
+  if (parsed === null) {
+    const buf = await window.crypto.subtle.decrypt({ name: "RSA-OAEP" }, privateKey, fromBase64(encrypted));
+    return fromUtf8(buf);
+  }
+
+  if (!isEnvelope(parsed)) {
+    throw new Error("Unsupported envelope version");
+  }
+
+  let wrappedKeys: string[];
+  if (parsed.v === 1) {
+    wrappedKeys = [parsed.key];
+  } else {
+    const sorted = [...parsed.keys].sort((a, b) => Number(b.kid === kid) - Number(a.kid === kid));
+    wrappedKeys = sorted.map((k) => k.key);
+  }
+
+  const rawKey = await unwrapContentKey(privateKey, wrappedKeys);
+  const contentKey = await window.crypto.subtle.importKey("raw", rawKey, { name: "AES-GCM" }, false, ["decrypt"]);
+  const buf = await window.crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(parsed.iv) },
+    contentKey,
+    fromBase64(parsed.ct)
+  );
+  return fromUtf8(buf);
+}
@@ -0,0 +1,155 @@
+import { isAttachmentRef } from "./attachments";
+import { CaseRecord } from "./cases";
+import { FOLLOWUP_FIELD } from "./followup";
+import { isLocationAnswer, formatLocation } from "./location";
+import { Field, FormSchema, dateValue, isNumeric } from "./schema";
+import { createZip } from "./zip";
+
+// Spreadsheet exports of decrypted reports. Columns follow the form schema,
+// with any answers the schema does not know appended at the end. Everything
+// is built in the browser and handed to downloadFile().
+
+export type Cell = string | number | null;
+
+export type ReportTable = {
+  header: string[];
+  rows: Cell[][];
+};
+
+export type ExportReport = {
+  blobId: string;
+  storedAt?: string;
+  data: Record<string, unknown>;
+  caseRecord?: CaseRecord;
+};
+
+export const CSV_TYPE = "text/csv;charset=utf-8";
+export const XLSX_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+// One cell per answer; multi-select and attachments are flattened to "a; b"
+export function cellValue(field: Field | undefined, v: unknown): Cell {
+  if (v === undefined || v === null || v === "") return null;
+  if (Array.isArray(v)) {
+    const parts = v.map((x) => (isAttachmentRef(x) ? x.name : String(x)));
+    return parts.length ? parts.join("; ") : null;
+  }
+  if (isLocationAnswer(v)) return formatLocation(v) || null;
+  if (field?.type === "checkbox" || typeof v === "boolean") return v ? "Yes" : "No";
+  if (field && isNumeric(field.type) && Number.isFinite(Number(v))) return Number(v);
+  if (field?.type === "datetime" && dateValue(v) !== null) return String(v).replace("T", " ");
+  return typeof v === "object" ? JSON.stringify(v) : String(v);
+}
+
+export function reportTable(schema: FormSchema | null, reports: ExportReport[]): ReportTable {
+  const fields = schema?.fields ?? [];
+  const known = new Set(fields.map((f) => f.id));
+  const extra = [
+    ...new Set(reports.flatMap((r) => Object.keys(r.data).filter((k) => !known.has(k) && k !== FOLLOWUP_FIELD))),
+  ];
+
+  const header = ["Blob ID", "Received", "Status", "Assignee", "Tags", ...fields.map((f) => f.label), ...extra];
+  const rows = reports.map((r) => [
+    r.blobId,
+    r.storedAt ?? null,
+    r.caseRecord?.status ?? null,
+    r.caseRecord?.assignee || null,
+    r.caseRecord?.tags.join("; ") || null,
+    ...fields.map((f) => cellValue(f, r.data[f.id])),
+    ...extra.map((key) => cellValue(undefined, r.data[key])),
+  ]);
+  return { header, rows };
+}
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function csvCell(cell: Cell) {
+  if (cell === null) return "";
+  if (typeof cell === "number") return String(cell);
+  const text = FORMULA_START.test(cell) ? `'${cell}` : cell;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// RFC 4180 with a BOM so Excel picks up UTF-8
+export function toCsv(table: ReportTable): string {
+  return "\uFEFF" + [table.header, ...table.rows].map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+function xmlEscape(text: string) {
+  return text
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function columnName(index: number) {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function sheetXml(table: ReportTable) {
+  const rows = [table.header, ...table.rows].map((row, r) => {
+    const cells = row.map((cell, c) => {
+      const ref = `${columnName(c)}${r + 1}`;
+      const style = r === 0 ? ' s="1"' : "";
+      if (cell === null) return "";
+      if (typeof cell === "number") return `<c r="${ref}"${style}><v>${cell}</v></c>`;
+      return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${xmlEscape(cell)}</t></is></c>`;
+    });
+    return `<row r="${r + 1}">${cells.join("")}</row>`;
+  });
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" state="frozen"/></sheetView></sheetViews>' +
+    `<sheetData>${rows.join("")}</sheetData></worksheet>`
+  );
+}
+
+// Single-sheet workbook with a bold, frozen header row
+export function toXlsx(table: ReportTable, sheetName = "Reports"): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const files: Record<string, string> = {
+    "[Content_Types].xml":
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+      "</Types>",
+    "_rels/.rels":
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      "</Relationships>",
+    "xl/workbook.xml":
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      `<sheets><sheet name="${xmlEscape(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+    "xl/_rels/workbook.xml.rels":
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+      '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+      "</Relationships>",
+    "xl/styles.xml":
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+      '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+      '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+      '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+      '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+      '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+      "</styleSheet>",
+    "xl/worksheets/sheet1.xml": sheetXml(table),
+  };
+  return createZip(Object.entries(files).map(([name, text]) => ({ name, data: encoder.encode(text) })));
+}
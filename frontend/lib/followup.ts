@@ -0,0 +1,152 @@
+import { fromBase64, fromUtf8, sha256Hex, toBase64, utf8 } from "./bytes";
+import { EnvelopeRecipient, decryptEnvelope, encryptEnvelope } from "./envelope";
+import { deriveAesKey, randomSalt } from "./kdf";
+import { RSA_PARAMS, generateRsaKeyPair, importPublicJwk, keyFingerprint } from "./keys";
+
+// Anonymous follow-up channel between a reporter and the form's admins.
+//
+// The reporter keeps only a receipt code. From it we derive:
+//  - the thread id the backend files messages under (a hash, so the backend
+//    never learns the code),
+//  - a reply token that marks posts as coming from the reporter (admin posts
+//    need the form's admin token instead),
+//  - the key that unwraps the reporter's private key, which is stored as a
+//    Walrus blob next to the thread.
+// Every message is an envelope for the form recipients plus the reporter, so
+// both sides can read the whole conversation. The sender and thread are part
+// of the encrypted message and checked against how the backend filed it.
+
+export const FOLLOWUP_FIELD = "_followup";
+
+const CROCKFORD = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+
+export type FollowupRef = {
+  threadId: string;
+  publicKey: string; // reporter public JWK, JSON encoded
+};
+
+// Sent with the report; the backend opens the thread only if the report is stored
+export type NewThread = {
+  threadId: string;
+  replyToken: string;
+  publicKey: string;
+  reporterKey: string; // reporter private key, wrapped under the receipt code
+};
+
+export type ThreadMessage = {
+  from: "reporter" | "admin";
+  body: string;
+  sentAt: string;
+  threadId?: string; // missing on messages sent before it was added
+};
+
+export type StoredMessage = {
+  blobId: string;
+  from: "reporter" | "admin";
+  encrypted: string;
+  postedAt: string;
+};
+
+type WrappedReporterKey = {
+  salt: string;
+  iv: string;
+  ct: string;
+};
+
+export function generateReceiptCode(): string {
+  const bytes = window.crypto.getRandomValues(new Uint8Array(15));
+  let bits = "";
+  bytes.forEach((b) => (bits += b.toString(2).padStart(8, "0")));
+  let code = "";
+  for (let i = 0; i < bits.length; i += 5) {
+    code += CROCKFORD[parseInt(bits.slice(i, i + 5), 2)];
+  }
+  return code.match(/.{4}/g)!.join("-");
+}
+
+// Accepts codes typed with lower case, spaces or the usual look-alikes
+export function normalizeReceiptCode(input: string): string {
+  return input
+    .toUpperCase()
+    .replace(/O/g, "0")
+    .replace(/[IL]/g, "1")
+    .replace(/[^0-9A-Z]/g, "");
+}
+
+export function threadIdFromCode(code: string) {
+  return sha256Hex(`cipherwhisp-thread:${normalizeReceiptCode(code)}`);
+}
+
+export function replyTokenFromCode(code: string) {
+  return sha256Hex(`cipherwhisp-reply:${normalizeReceiptCode(code)}`);
+}
+
+// Creates the reporter keypair and wraps its private half under the code
+export async function createReporterKey(code: string): Promise<{ publicKey: string; wrappedKey: string }> {
+  const { publicJwk, privateJwk } = await generateRsaKeyPair();
+  const salt = randomSalt();
+  const iv = window.crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveAesKey(normalizeReceiptCode(code), salt, undefined, ["encrypt"]);
+  const ct = await window.crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, utf8(JSON.stringify(privateJwk)));
+
+  const wrapped: WrappedReporterKey = { salt: toBase64(salt), iv: toBase64(iv), ct: toBase64(ct) };
+  return { publicKey: JSON.stringify(publicJwk), wrappedKey: JSON.stringify(wrapped) };
+}
+
+export async function unwrapReporterKey(code: string, wrappedKey: string): Promise<CryptoKey> {
+  const wrapped = JSON.parse(wrappedKey) as WrappedReporterKey;
+  const key = await deriveAesKey(normalizeReceiptCode(code), fromBase64(wrapped.salt), undefined, ["decrypt"]);
+  let plain: ArrayBuffer;
+  try {
+    plain = await window.crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: fromBase64(wrapped.iv) },
+      key,
+      fromBase64(wrapped.ct)
+    );
+  } catch {
+    throw new Error("Receipt code does not match this conversation");
+  }
+  return window.crypto.subtle.importKey("jwk", JSON.parse(fromUtf8(plain)), RSA_PARAMS, false, ["decrypt"]);
+}
+
+export async function reporterRecipient(publicKey: string): Promise<EnvelopeRecipient> {
+  const jwk = JSON.parse(publicKey) as JsonWebKey;
+  return { kid: await keyFingerprint(jwk), key: await importPublicJwk(jwk) };
+}
+
+export async function encryptMessage(
+  recipients: EnvelopeRecipient[],
+  threadId: string,
+  from: ThreadMessage["from"],
+  body: string
+): Promise<string> {
+  const message: ThreadMessage = { from, body, sentAt: new Date().toISOString(), threadId };
+  return encryptEnvelope(recipients, JSON.stringify(message));
+}
+
+export async function decryptMessage(
+  privateKey: CryptoKey,
+  stored: StoredMessage,
+  threadId: string,
+  kid?: string
+): Promise<ThreadMessage> {
+  const message = JSON.parse(await decryptEnvelope(privateKey, stored.encrypted, kid)) as Partial<ThreadMessage>;
+  if (typeof message.body !== "string" || typeof message.sentAt !== "string") {
+    throw new Error("Message is incomplete");
+  }
+  // The sender comes from the encrypted message. The backend's label must agree:
+  // a reporter cannot post as admin without the admin token, nor the reverse.
+  if ((message.from !== "reporter" && message.from !== "admin") || message.from !== stored.from) {
+    throw new Error("Could not verify who sent this message");
+  }
+  if (message.threadId !== undefined && message.threadId !== threadId) {
+    throw new Error("Message belongs to another conversation");
+  }
+  return { from: message.from, body: message.body, sentAt: message.sentAt, threadId: message.threadId };
+}
+
+export function isFollowupRef(value: unknown): value is FollowupRef {
+  if (typeof value !== "object" || value === null) return false;
+  const r = value as Record<string, unknown>;
+  return typeof r.threadId === "string" && typeof r.publicKey === "string";
+}
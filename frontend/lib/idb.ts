@@ -0,0 +1,86 @@
+// Minimal promise wrapper around IndexedDB. All CipherWhisp stores live in a
+// single database; bump DB_VERSION and extend upgrade() when adding one.
+
+const DB_NAME = "cipherwhisp";
+const DB_VERSION = 3;
+
+export const STORES = {
+  keyring: "keyring",
+  keyringMeta: "keyringMeta",
+  inbox: "inbox",
+  inboxMeta: "inboxMeta",
+  templates: "templates",
+} as const;
+
+export type StoreName = (typeof STORES)[keyof typeof STORES];
+
+function upgrade(db: IDBDatabase) {
+  if (!db.objectStoreNames.contains(STORES.keyring)) {
+    db.createObjectStore(STORES.keyring, { keyPath: "formId" });
+  }
+  if (!db.objectStoreNames.contains(STORES.keyringMeta)) {
+    db.createObjectStore(STORES.keyringMeta);
+  }
+  if (!db.objectStoreNames.contains(STORES.inbox)) {
+    db.createObjectStore(STORES.inbox, { keyPath: ["formId", "seq"] });
+  }
+  if (!db.objectStoreNames.contains(STORES.inboxMeta)) {
+    db.createObjectStore(STORES.inboxMeta);
+  }
+  if (!db.objectStoreNames.contains(STORES.templates)) {
+    db.createObjectStore(STORES.templates, { keyPath: "id" });
+  }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = window.indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => upgrade(req.result);
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function request<T>(store: StoreName, mode: IDBTransactionMode, fn: (s: IDBObjectStore) => IDBRequest): Promise<T> {
+  return openDb().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const tx = db.transaction(store, mode);
+        const req = fn(tx.objectStore(store));
+        tx.oncomplete = () => resolve(req.result as T);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+      })
+  );
+}
+
+export function idbGet<T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  return request<T | undefined>(store, "readonly", (s) => s.get(key));
+}
+
+export function idbGetAll<T>(store: StoreName, query?: IDBKeyRange): Promise<T[]> {
+  return request<T[]>(store, "readonly", (s) => s.getAll(query));
+}
+
+export function idbPut<T>(store: StoreName, value: T, key?: IDBValidKey): Promise<void> {
+  return request<void>(store, "readwrite", (s) => s.put(value, key));
+}
+
+export function idbPutAll<T>(store: StoreName, values: T[]): Promise<void> {
+  return request<void>(store, "readwrite", (s) => {
+    values.forEach((value) => s.put(value));
+    return s.count();
+  });
+}
+
+export function idbDelete(store: StoreName, key: IDBValidKey | IDBKeyRange): Promise<void> {
+  return request<void>(store, "readwrite", (s) => s.delete(key));
+}
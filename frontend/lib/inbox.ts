@@ -0,0 +1,66 @@
+import { STORES, idbDelete, idbGet, idbGetAll, idbPut, idbPutAll } from "./idb";
+
+// Local ciphertext cache for the admin inbox.
+//
+// Submissions are kept exactly as the backend returned them (still encrypted)
+// in IndexedDB, keyed by form and arrival sequence number, together with the
+// paging cursor. Reopening the inbox only asks for items after that cursor.
+// Decrypted reports are never written to disk.
+
+export const INBOX_PAGE_SIZE = 25;
+
+export type Submission = {
+  seq: number;
+  blobId: string;
+  storedAt?: string;
+  encrypted: string;
+};
+
+export type SubmissionPage = {
+  items: Submission[];
+  nextCursor: number;
+  hasMore: boolean;
+  total: number;
+};
+
+export type InboxState = {
+  cursor: number;
+  // blobIds already decrypted on this device, used for the "new" counts
+  seen: string[];
+};
+
+type CachedSubmission = Submission & { formId: string };
+
+function formRange(formId: string) {
+  return IDBKeyRange.bound([formId, 0], [formId, Infinity]);
+}
+
+export async function loadInbox(formId: string): Promise<{ submissions: Submission[]; state: InboxState }> {
+  const [cached, state] = await Promise.all([
+    idbGetAll<CachedSubmission>(STORES.inbox, formRange(formId)),
+    idbGet<InboxState>(STORES.inboxMeta, formId),
+  ]);
+  const submissions = cached.map(({ seq, blobId, storedAt, encrypted }) => ({ seq, blobId, storedAt, encrypted }));
+  return { submissions, state: state ?? { cursor: 0, seen: [] } };
+}
+
+export async function cachePage(formId: string, page: SubmissionPage, state: InboxState): Promise<InboxState> {
+  await idbPutAll<CachedSubmission>(
+    STORES.inbox,
+    page.items.map((sub) => ({ ...sub, formId }))
+  );
+  const next = { ...state, cursor: page.nextCursor };
+  await idbPut(STORES.inboxMeta, next, formId);
+  return next;
+}
+
+export async function markSeen(formId: string, state: InboxState, blobIds: string[]): Promise<InboxState> {
+  const next = { ...state, seen: [...new Set([...state.seen, ...blobIds])] };
+  await idbPut(STORES.inboxMeta, next, formId);
+  return next;
+}
+
+export async function clearInbox(formId: string): Promise<void> {
+  await idbDelete(STORES.inbox, formRange(formId));
+  await idbDelete(STORES.inboxMeta, formId);
+}
@@ -0,0 +1,26 @@
+import { utf8 } from "./bytes";
+
+// Passphrase based key derivation shared by everything that encrypts local
+// secrets (key backups, the keyring, drafts).
+
+export const PBKDF2_ITERATIONS = 600_000;
+
+export function randomSalt(length = 16) {
+  return window.crypto.getRandomValues(new Uint8Array(length));
+}
+
+export async function deriveAesKey(
+  passphrase: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number = PBKDF2_ITERATIONS,
+  usages: KeyUsage[] = ["encrypt", "decrypt"]
+): Promise<CryptoKey> {
+  const material = await window.crypto.subtle.importKey("raw", utf8(passphrase), "PBKDF2", false, ["deriveKey"]);
+  return window.crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    usages
+  );
+}
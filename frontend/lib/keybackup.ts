@@ -0,0 +1,121 @@
+import { fromBase64, fromUtf8, toBase64, utf8 } from "./bytes";
+import { PBKDF2_ITERATIONS, deriveAesKey, randomSalt } from "./kdf";
+import { keyFingerprint } from "./keys";
+
+// Passphrase protected backup of a form's private key.
+//
+// The private JWK is encrypted with AES-GCM under a PBKDF2 derived key. The
+// form id, creation date and fingerprint stay readable so the admin page can
+// show which key a file holds before it is unlocked; they are bound to the
+// ciphertext as AES-GCM additional data so they cannot be swapped.
+
+export const KEY_BACKUP_FORMAT = "cipherwhisp-key-backup";
+export const MIN_PASSPHRASE_LENGTH = 10;
+
+// The iteration count comes from the file, so it is held to a range: fewer
+// than backups have ever used would weaken the key, far more would hang the tab
+const MAX_BACKUP_ITERATIONS = 10 * PBKDF2_ITERATIONS;
+
+export type KeyBackupFile = {
+  format: typeof KEY_BACKUP_FORMAT;
+  version: 1;
+  formId: string; // empty for personal recipient keys
+  createdAt: string;
+  fingerprint: string;
+  kdf: { name: "PBKDF2"; hash: "SHA-256"; iterations: number; salt: string };
+  cipher: { name: "AES-GCM"; iv: string };
+  ciphertext: string;
+};
+
+function additionalData(meta: Pick<KeyBackupFile, "formId" | "createdAt" | "fingerprint">) {
+  return utf8(`${KEY_BACKUP_FORMAT}:1:${meta.formId}:${meta.createdAt}:${meta.fingerprint}`);
+}
+
+export async function createKeyBackup(
+  privateJwk: JsonWebKey,
+  passphrase: string,
+  formId: string
+): Promise<KeyBackupFile> {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+  }
+
+  const meta = {
+    formId,
+    createdAt: new Date().toISOString(),
+    fingerprint: await keyFingerprint(privateJwk),
+  };
+  const salt = randomSalt();
+  const iv = window.crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveAesKey(passphrase, salt, PBKDF2_ITERATIONS, ["encrypt"]);
+  const ct = await window.crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: additionalData(meta) },
+    key,
+    utf8(JSON.stringify(privateJwk))
+  );
+
+  return {
+    format: KEY_BACKUP_FORMAT,
+    version: 1,
+    ...meta,
+    kdf: { name: "PBKDF2", hash: "SHA-256", iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+    cipher: { name: "AES-GCM", iv: toBase64(iv) },
+    ciphertext: toBase64(ct),
+  };
+}
+
+export function parseKeyBackup(text: string): KeyBackupFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("Key backup is not valid JSON");
+  }
+
+  const b = raw as Partial<KeyBackupFile> | null;
+  if (!b || b.format !== KEY_BACKUP_FORMAT) {
+    throw new Error("Not a CipherWhisp key backup file");
+  }
+  if (b.version !== 1) {
+    throw new Error(`Unsupported key backup version ${String(b.version)}`);
+  }
+  if (
+    typeof b.formId !== "string" ||
+    typeof b.createdAt !== "string" ||
+    typeof b.fingerprint !== "string" ||
+    typeof b.ciphertext !== "string" ||
+    b.kdf?.name !== "PBKDF2" ||
+    typeof b.kdf.salt !== "string" ||
+    typeof b.kdf.iterations !== "number" ||
+    b.cipher?.name !== "AES-GCM" ||
+    typeof b.cipher.iv !== "string"
+  ) {
+    throw new Error("Key backup file is incomplete");
+  }
+  const { iterations } = b.kdf;
+  if (!Number.isInteger(iterations) || iterations < PBKDF2_ITERATIONS || iterations > MAX_BACKUP_ITERATIONS) {
+    throw new Error("Key backup uses an unsupported key derivation setting");
+  }
+  return b as KeyBackupFile;
+}
+
+export async function unlockKeyBackup(backup: KeyBackupFile, passphrase: string): Promise<JsonWebKey> {
+  const key = await deriveAesKey(passphrase, fromBase64(backup.kdf.salt), backup.kdf.iterations, ["decrypt"]);
+
+  let plain: ArrayBuffer;
+  try {
+    plain = await window.crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: fromBase64(backup.cipher.iv), additionalData: additionalData(backup) },
+      key,
+      fromBase64(backup.ciphertext)
+    );
+  } catch {
+    throw new Error("Wrong passphrase or damaged backup file");
+  }
+
+  const jwk = JSON.parse(fromUtf8(plain)) as JsonWebKey;
+  if ((await keyFingerprint(jwk)) !== backup.fingerprint) {
+    throw new Error("Key fingerprint does not match the backup file");
+  }
+  return jwk;
+}
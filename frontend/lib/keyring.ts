@@ -0,0 +1,190 @@
+import { STORES, idbDelete, idbGet, idbGetAll, idbPut } from "./idb";
+import { PBKDF2_ITERATIONS, deriveAesKey, randomSalt } from "./kdf";
+import { MIN_PASSPHRASE_LENGTH } from "./keybackup";
+import { RSA_PARAMS, keyFingerprint } from "./keys";
+
+// Local admin keyring.
+//
+// Form private keys are imported as non-extractable CryptoKeys and stored in
+// IndexedDB by formId, so nothing on this device can export the key bytes
+// again, with or without the passphrase. The keyring passphrase gates their
+// use: unlocking checks it against a value wrapped under a key derived from
+// it, then starts a session during which the admin page loads stored keys
+// without asking again; locking ends it. The session also ends by itself
+// after SESSION_IDLE_MS without use or SESSION_MAX_AGE_MS after unlocking,
+// whichever comes first. The lock keeps out someone at this browser, not a
+// script running in this origin, which can use the stored keys to decrypt
+// but never read them out.
+
+const CONFIG_KEY = "config";
+const SESSION_KEY = "session";
+
+export const SESSION_IDLE_MS = 30 * 60 * 1000;
+export const SESSION_MAX_AGE_MS = 8 * 60 * 60 * 1000;
+
+type KeyringConfig = {
+  salt: Uint8Array<ArrayBuffer>;
+  iterations: number;
+  checkIv: Uint8Array<ArrayBuffer>;
+  check: ArrayBuffer; // a random HMAC key wrapped under the passphrase key
+};
+
+type KeyringSession = {
+  unlockedAt: string;
+  lastUsedAt: string;
+};
+
+type KeyringRecord = {
+  formId: string;
+  fingerprint: string;
+  addedAt: string;
+  key: CryptoKey; // non-extractable, decrypt only
+};
+
+export type KeyringEntry = Pick<KeyringRecord, "formId" | "fingerprint" | "addedAt">;
+
+export type KeyringStatus = {
+  initialized: boolean;
+  unlocked: boolean;
+};
+
+// The passphrase key only ever wraps the check value and is never stored
+const CHECK_WRAP_USAGES: KeyUsage[] = ["wrapKey", "unwrapKey"];
+const CHECK_KEY_PARAMS: HmacImportParams = { name: "HMAC", hash: "SHA-256" };
+
+export function keyringSupported() {
+  return typeof window !== "undefined" && "indexedDB" in window;
+}
+
+function sessionExpired(session: KeyringSession, now: number) {
+  const unlockedAt = Date.parse(session.unlockedAt);
+  const lastUsedAt = Date.parse(session.lastUsedAt);
+  return !(now - unlockedAt < SESSION_MAX_AGE_MS && now - lastUsedAt < SESSION_IDLE_MS);
+}
+
+// The stored session if it has not timed out; an expired one is deleted.
+// `touch` counts this call as use for the idle timeout.
+async function activeSession(touch: boolean): Promise<KeyringSession | null> {
+  const session = await idbGet<KeyringSession>(STORES.keyringMeta, SESSION_KEY);
+  if (!session) return null;
+
+  const now = Date.now();
+  if (sessionExpired(session, now)) {
+    await lockKeyring();
+    return null;
+  }
+  if (touch) {
+    await idbPut(STORES.keyringMeta, { ...session, lastUsedAt: new Date(now).toISOString() }, SESSION_KEY);
+  }
+  return session;
+}
+
+export async function keyringStatus(): Promise<KeyringStatus> {
+  const [config, session] = await Promise.all([
+    idbGet<KeyringConfig>(STORES.keyringMeta, CONFIG_KEY),
+    activeSession(false),
+  ]);
+  return { initialized: !!config, unlocked: !!config && !!session };
+}
+
+async function startSession(): Promise<void> {
+  const now = new Date().toISOString();
+  const session: KeyringSession = { unlockedAt: now, lastUsedAt: now };
+  await idbPut(STORES.keyringMeta, session, SESSION_KEY);
+}
+
+// Sets up the keyring and unlocks it. The passphrase is asked for twice since
+// a typo here locks every stored key away.
+export async function createKeyring(passphrase: string, confirmation: string): Promise<void> {
+  if (await idbGet<KeyringConfig>(STORES.keyringMeta, CONFIG_KEY)) {
+    throw new Error("Keyring is already set up");
+  }
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Keyring passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+  }
+  if (passphrase !== confirmation) throw new Error("Keyring passphrases do not match");
+
+  const salt = randomSalt();
+  const wrappingKey = await deriveAesKey(passphrase, salt, PBKDF2_ITERATIONS, CHECK_WRAP_USAGES);
+  const checkIv = window.crypto.getRandomValues(new Uint8Array(12));
+  const checkKey = await window.crypto.subtle.generateKey(CHECK_KEY_PARAMS, true, ["sign"]);
+  const check = await window.crypto.subtle.wrapKey("raw", checkKey, wrappingKey, { name: "AES-GCM", iv: checkIv });
+  const config: KeyringConfig = { salt, iterations: PBKDF2_ITERATIONS, checkIv, check };
+  await idbPut(STORES.keyringMeta, config, CONFIG_KEY);
+  await startSession();
+}
+
+export async function unlockKeyring(passphrase: string): Promise<void> {
+  const config = await idbGet<KeyringConfig>(STORES.keyringMeta, CONFIG_KEY);
+  if (!config) throw new Error("Keyring is not set up");
+
+  const wrappingKey = await deriveAesKey(passphrase, config.salt, config.iterations, CHECK_WRAP_USAGES);
+  try {
+    await window.crypto.subtle.unwrapKey(
+      "raw",
+      config.check,
+      wrappingKey,
+      { name: "AES-GCM", iv: config.checkIv },
+      CHECK_KEY_PARAMS,
+      false,
+      ["sign"]
+    );
+  } catch {
+    throw new Error("Wrong keyring passphrase");
+  }
+  await startSession();
+}
+
+export async function lockKeyring(): Promise<void> {
+  await idbDelete(STORES.keyringMeta, SESSION_KEY);
+}
+
+async function requireSession(): Promise<void> {
+  if (!(await activeSession(true))) throw new Error("Keyring is locked");
+}
+
+export async function addToKeyring(formId: string, privateJwk: JsonWebKey): Promise<void> {
+  await requireSession();
+  const record: KeyringRecord = {
+    formId,
+    fingerprint: await keyFingerprint(privateJwk),
+    addedAt: new Date().toISOString(),
+    key: await window.crypto.subtle.importKey("jwk", privateJwk, RSA_PARAMS, false, ["decrypt"]),
+  };
+  await idbPut(STORES.keyring, record);
+}
+
+export async function getKeyringEntry(formId: string): Promise<KeyringEntry | null> {
+  const record = await idbGet<KeyringRecord>(STORES.keyring, formId);
+  return record ? { formId: record.formId, fingerprint: record.fingerprint, addedAt: record.addedAt } : null;
+}
+
+// Returns null when there is no stored key for this form. Throws when the
+// keyring is locked.
+export async function loadFromKeyring(formId: string): Promise<{ key: CryptoKey; fingerprint: string } | null> {
+  const record = await idbGet<KeyringRecord>(STORES.keyring, formId);
+  if (!record) return null;
+
+  await requireSession();
+  return { key: record.key, fingerprint: record.fingerprint };
+}
+
+export async function listKeyring(): Promise<KeyringEntry[]> {
+  const records = await idbGetAll<KeyringRecord>(STORES.keyring);
+  return records
+    .map((r) => ({ formId: r.formId, fingerprint: r.fingerprint, addedAt: r.addedAt }))
+    .sort((a, b) => b.addedAt.localeCompare(a.addedAt));
+}
+
+export async function forgetKey(formId: string): Promise<void> {
+  await idbDelete(STORES.keyring, formId);
+}
+
+// Drops the passphrase and every stored key. The only way out of a
+// forgotten keyring passphrase.
+export async function resetKeyring(): Promise<void> {
+  const records = await idbGetAll<KeyringRecord>(STORES.keyring);
+  await Promise.all(records.map((r) => idbDelete(STORES.keyring, r.formId)));
+  await idbDelete(STORES.keyringMeta, SESSION_KEY);
+  await idbDelete(STORES.keyringMeta, CONFIG_KEY);
+}
@@ -0,0 +1,84 @@
+import { utf8 } from "./bytes";
+import type { EnvelopeRecipient } from "./envelope";
+
+// Helpers for the RSA-OAEP form keys.
+
+export const RSA_PARAMS = { name: "RSA-OAEP", hash: "SHA-256" } as const;
+
+// Short, human comparable fingerprint of an RSA key. Only the public
+// components are hashed, so a private JWK and its public JWK match.
+export async function keyFingerprint(jwk: JsonWebKey): Promise<string> {
+  if (jwk.kty !== "RSA" || !jwk.n || !jwk.e) {
+    throw new Error("Not an RSA key");
+  }
+  const canonical = JSON.stringify({ e: jwk.e, kty: "RSA", n: jwk.n });
+  const digest = new Uint8Array(await window.crypto.subtle.digest("SHA-256", utf8(canonical)));
+  const hex = Array.from(digest.subarray(0, 16), (b) => b.toString(16).padStart(2, "0")).join("");
+  return hex.toUpperCase().match(/.{4}/g)!.join(" ");
+}
+
+export async function generateRsaKeyPair(): Promise<{ publicJwk: JsonWebKey; privateJwk: JsonWebKey }> {
+  const keyPair = await window.crypto.subtle.generateKey(
+    {
+      ...RSA_PARAMS,
+      modulusLength: 2048,
+      publicExponent: new Uint8Array([1, 0, 1]),
+    },
+    true,
+    ["encrypt", "decrypt"]
+  );
+
+  return {
+    publicJwk: await window.crypto.subtle.exportKey("jwk", keyPair.publicKey),
+    privateJwk: await window.crypto.subtle.exportKey("jwk", keyPair.privateKey),
+  };
+}
+
+export async function importPrivateJwk(jwk: JsonWebKey, extractable = false): Promise<CryptoKey> {
+  return window.crypto.subtle.importKey("jwk", jwk, RSA_PARAMS, extractable, ["decrypt"]);
+}
+
+export async function importPublicJwk(jwk: JsonWebKey): Promise<CryptoKey> {
+  return window.crypto.subtle.importKey("jwk", jwk, RSA_PARAMS, true, ["encrypt"]);
+}
+
+// Parses a pasted public JWK and refuses anything that is not one. Pasting a
+// private key here would publish it to the backend.
+export function parsePublicJwk(text: string): JsonWebKey {
+  let jwk: JsonWebKey;
+  try {
+    jwk = JSON.parse(text);
+  } catch {
+    throw new Error("Public key is not valid JSON");
+  }
+  if (jwk.kty !== "RSA" || !jwk.n || !jwk.e) {
+    throw new Error("Public key must be an RSA JWK");
+  }
+  if (jwk.d) {
+    throw new Error("That is a private key. Paste the public key only.");
+  }
+  return { kty: jwk.kty, n: jwk.n, e: jwk.e, alg: jwk.alg, ext: true };
+}
+
+// A form recipient as stored by the backend. id is the key fingerprint.
+export type Recipient = {
+  id: string;
+  label: string;
+  publicKey: string; // JSON encoded public JWK
+};
+
+export async function makeRecipient(label: string, publicJwk: JsonWebKey): Promise<Recipient> {
+  return { id: await keyFingerprint(publicJwk), label, publicKey: JSON.stringify(publicJwk) };
+}
+
+export async function importRecipients(recipients: Recipient[]): Promise<EnvelopeRecipient[]> {
+  return Promise.all(recipients.map(async (r) => ({ kid: r.id, key: await importPublicJwk(JSON.parse(r.publicKey)) })));
+}
+
+// Recipients of a form as returned by /form/{formId}. Forms created before
+// multi-recipient support only carry a single publicKey.
+export async function recipientsFromForm(form: { publicKey: string; recipients?: Recipient[] }): Promise<Recipient[]> {
+  if (form.recipients && form.recipients.length > 0) return form.recipients;
+  const jwk = JSON.parse(form.publicKey) as JsonWebKey;
+  return [{ id: await keyFingerprint(jwk), label: "Form owner", publicKey: form.publicKey }];
+}
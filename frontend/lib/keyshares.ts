@@ -0,0 +1,123 @@
+import { fromBase64, fromUtf8, toBase64, utf8 } from "./bytes";
+import { keyFingerprint } from "./keys";
+import { combineShares, splitSecret } from "./shamir";
+
+// k-of-n custody of a form's private key. The private JWK is split with
+// Shamir secret sharing into one file per custodian; the admin inbox needs k
+// of them to rebuild the key in memory.
+
+export const KEY_SHARE_FORMAT = "cipherwhisp-key-share";
+
+export type ThresholdPolicy = {
+  k: number;
+  n: number;
+};
+
+export type KeyShareFile = {
+  format: typeof KEY_SHARE_FORMAT;
+  version: 1;
+  formId: string;
+  fingerprint: string;
+  createdAt: string;
+  threshold: number;
+  total: number;
+  index: number;
+  share: string; // base64
+};
+
+export function checkThresholdPolicy({ k, n }: ThresholdPolicy): string | null {
+  if (!Number.isInteger(k) || !Number.isInteger(n)) return "Custodian counts must be whole numbers.";
+  if (k < 2) return "At least 2 custodians must be required to open a report.";
+  if (n < k) return "There must be at least as many custodians as required shares.";
+  if (n > 20) return "At most 20 custodians are supported.";
+  return null;
+}
+
+// A share before the backend has given the form its id
+export type UnassignedKeyShare = Omit<KeyShareFile, "formId">;
+
+// Splits the key and recombines the first and the last k shares before
+// handing any out, so a bad split is caught while nothing is published yet.
+export async function createKeyShares(privateJwk: JsonWebKey, policy: ThresholdPolicy): Promise<UnassignedKeyShare[]> {
+  const problem = checkThresholdPolicy(policy);
+  if (problem) throw new Error(problem);
+
+  const fingerprint = await keyFingerprint(privateJwk);
+  const createdAt = new Date().toISOString();
+  const secret = utf8(JSON.stringify(privateJwk));
+  const shares = splitSecret(secret, policy.n, policy.k);
+  secret.fill(0);
+
+  const files: UnassignedKeyShare[] = shares.map((s) => ({
+    format: KEY_SHARE_FORMAT,
+    version: 1,
+    fingerprint,
+    createdAt,
+    threshold: policy.k,
+    total: policy.n,
+    index: s.x,
+    share: toBase64(s.y),
+  }));
+  for (const subset of [files.slice(0, policy.k), files.slice(-policy.k)]) {
+    await combineKeyShares(subset.map((f) => ({ ...f, formId: "" })));
+  }
+  return files;
+}
+
+export function parseKeyShare(text: string): KeyShareFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("Key share is not valid JSON");
+  }
+
+  const s = raw as Partial<KeyShareFile> | null;
+  if (!s || s.format !== KEY_SHARE_FORMAT) {
+    throw new Error("Not a CipherWhisp key share");
+  }
+  if (s.version !== 1) {
+    throw new Error(`Unsupported key share version ${String(s.version)}`);
+  }
+  if (
+    typeof s.formId !== "string" ||
+    typeof s.fingerprint !== "string" ||
+    typeof s.threshold !== "number" ||
+    typeof s.total !== "number" ||
+    typeof s.index !== "number" ||
+    typeof s.share !== "string"
+  ) {
+    throw new Error("Key share is incomplete");
+  }
+  return s as KeyShareFile;
+}
+
+// Rebuilds the private JWK from at least `threshold` shares. The caller is
+// expected to import it as a non-extractable key and drop the JWK.
+export async function combineKeyShares(files: KeyShareFile[]): Promise<JsonWebKey> {
+  if (files.length === 0) throw new Error("No key shares");
+  const first = files[0];
+  for (const f of files) {
+    if (f.formId !== first.formId || f.fingerprint !== first.fingerprint || f.threshold !== first.threshold) {
+      throw new Error("Key shares belong to different keys");
+    }
+  }
+  if (files.length < first.threshold) {
+    throw new Error(`${first.threshold} shares are needed, only ${files.length} provided`);
+  }
+
+  const secret = combineShares(files.slice(0, first.threshold).map((f) => ({ x: f.index, y: fromBase64(f.share) })));
+  let jwk: JsonWebKey;
+  try {
+    jwk = JSON.parse(fromUtf8(secret));
+  } catch {
+    throw new Error("Key shares did not combine into a valid key");
+  } finally {
+    secret.fill(0);
+  }
+
+  if ((await keyFingerprint(jwk)) !== first.fingerprint) {
+    throw new Error("Combined key does not match the share fingerprint");
+  }
+  return jwk;
+}
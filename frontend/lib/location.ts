@@ -0,0 +1,54 @@
+// Coarse location answers. Reporters type a place name and may add an
+// approximate position from the browser; coordinates are rounded before they
+// ever enter the report so a pin cannot point at someone's desk or home.
+
+// One decimal is roughly 11 km of latitude
+export const COARSE_DECIMALS = 1;
+
+export type LocationAnswer = {
+  place: string;
+  lat?: number;
+  lng?: number;
+};
+
+export function isLocationAnswer(value: unknown): value is LocationAnswer {
+  const v = value as LocationAnswer | null;
+  return (
+    !!v &&
+    typeof v === "object" &&
+    typeof v.place === "string" &&
+    (v.lat === undefined || typeof v.lat === "number") &&
+    (v.lng === undefined || typeof v.lng === "number")
+  );
+}
+
+export function roundCoordinate(n: number) {
+  const f = 10 ** COARSE_DECIMALS;
+  return Math.round(n * f) / f;
+}
+
+export function hasPosition(v: LocationAnswer) {
+  return typeof v.lat === "number" && typeof v.lng === "number";
+}
+
+export function approximatePosition(): Promise<{ lat: number; lng: number }> {
+  return new Promise((resolve, reject) => {
+    if (!navigator.geolocation) {
+      reject(new Error("This browser cannot share a location"));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      (pos) => resolve({ lat: roundCoordinate(pos.coords.latitude), lng: roundCoordinate(pos.coords.longitude) }),
+      () => reject(new Error("Location permission was not granted")),
+      { enableHighAccuracy: false, maximumAge: 600_000, timeout: 10_000 }
+    );
+  });
+}
+
+export function formatLocation(v: LocationAnswer) {
+  const position =
+    typeof v.lat === "number" && typeof v.lng === "number"
+      ? `≈ ${v.lat.toFixed(COARSE_DECIMALS)}, ${v.lng.toFixed(COARSE_DECIMALS)}`
+      : "";
+  return [v.place.trim(), position].filter(Boolean).join(" · ");
+}
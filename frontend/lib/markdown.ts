@@ -0,0 +1,100 @@
+// Small markdown subset for reporter-facing text written in the builder:
+// headings, paragraphs, bullet and numbered lists, **bold**, *italic*, `code`
+// and [links](https://...). The result is a plain tree that is rendered as
+// React elements, so no HTML from the form owner ever reaches the page.
+
+export type Inline =
+  | { type: "text"; text: string }
+  | { type: "code"; text: string }
+  | { type: "strong" | "em"; children: Inline[] }
+  | { type: "link"; href: string; children: Inline[] };
+
+export type Block =
+  | { type: "heading"; level: 1 | 2 | 3; children: Inline[] }
+  | { type: "paragraph"; children: Inline[] }
+  | { type: "list"; ordered: boolean; items: Inline[][] };
+
+const INLINE = /`([^`]+)`|\*\*(.+?)\*\*|\*(.+?)\*|\[([^\]]+)\]\(([^)\s]+)\)/;
+
+// Only web and mail links; anything else (javascript:, data:) stays text
+export function safeHref(href: string): string | null {
+  try {
+    const url = new URL(href);
+    return ["https:", "http:", "mailto:"].includes(url.protocol) ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+export function parseInline(text: string): Inline[] {
+  const out: Inline[] = [];
+  let rest = text;
+  while (rest) {
+    const m = INLINE.exec(rest);
+    if (!m) {
+      out.push({ type: "text", text: rest });
+      break;
+    }
+    if (m.index > 0) out.push({ type: "text", text: rest.slice(0, m.index) });
+
+    if (m[1] !== undefined) {
+      out.push({ type: "code", text: m[1] });
+    } else if (m[2] !== undefined) {
+      out.push({ type: "strong", children: parseInline(m[2]) });
+    } else if (m[3] !== undefined) {
+      out.push({ type: "em", children: parseInline(m[3]) });
+    } else {
+      const href = safeHref(m[5]);
+      out.push(href ? { type: "link", href, children: parseInline(m[4]) } : { type: "text", text: m[0] });
+    }
+    rest = rest.slice(m.index + m[0].length);
+  }
+  return out;
+}
+
+export function parseMarkdown(source: string): Block[] {
+  const blocks: Block[] = [];
+  let paragraph: string[] = [];
+  let list: { ordered: boolean; items: string[] } | null = null;
+
+  function flush() {
+    if (paragraph.length) blocks.push({ type: "paragraph", children: parseInline(paragraph.join(" ")) });
+    if (list) blocks.push({ type: "list", ordered: list.ordered, items: list.items.map(parseInline) });
+    paragraph = [];
+    list = null;
+  }
+
+  for (const raw of source.replace(/\r\n?/g, "\n").split("\n")) {
+    const line = raw.trim();
+    if (!line) {
+      flush();
+      continue;
+    }
+
+    const heading = /^(#{1,3})\s+(.*)$/.exec(line);
+    if (heading) {
+      flush();
+      blocks.push({ type: "heading", level: heading[1].length as 1 | 2 | 3, children: parseInline(heading[2]) });
+      continue;
+    }
+
+    const item = /^(?:([-*])|\d+[.)])\s+(.*)$/.exec(line);
+    if (item) {
+      const ordered = !item[1];
+      if (paragraph.length || (list && list.ordered !== ordered)) flush();
+      list ??= { ordered, items: [] };
+      list.items.push(item[2]);
+      continue;
+    }
+
+    // indented lines continue the previous list item
+    if (list && /^\s/.test(raw)) {
+      list.items[list.items.length - 1] += ` ${line}`;
+      continue;
+    }
+    if (list) flush();
+    paragraph.push(line);
+  }
+  flush();
+  return blocks;
+}
@@ -0,0 +1,78 @@
+import { sha256Hex } from "./bytes";
+import { AGGREGATOR_BASE, fetchBlob } from "./walrus";
+
+// Submission receipts let a reporter (or anyone they show it to) check that
+// the ciphertext they sent is still on Walrus, byte for byte. The hash is over
+// the exact envelope text the backend stored as the blob.
+
+export const RECEIPT_FORMAT = "cipherwhisp-receipt";
+
+export type Receipt = {
+  format: typeof RECEIPT_FORMAT;
+  version: 1;
+  formId: string;
+  blobId: string;
+  sha256: string;
+  submittedAt: string;
+  aggregator: string;
+};
+
+export type VerifyResult = {
+  found: boolean;
+  hashMatches: boolean;
+  actualSha256: string | null;
+};
+
+export async function createReceipt(
+  formId: string,
+  blobId: string,
+  encrypted: string,
+  submittedAt: string
+): Promise<Receipt> {
+  return {
+    format: RECEIPT_FORMAT,
+    version: 1,
+    formId,
+    blobId,
+    sha256: await sha256Hex(encrypted),
+    submittedAt,
+    aggregator: AGGREGATOR_BASE,
+  };
+}
+
+export function parseReceipt(text: string): Receipt {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("Receipt is not valid JSON");
+  }
+
+  const r = raw as Partial<Receipt> | null;
+  if (!r || r.format !== RECEIPT_FORMAT) throw new Error("Not a CipherWhisp receipt");
+  if (r.version !== 1) throw new Error(`Unsupported receipt version ${String(r.version)}`);
+  if (typeof r.blobId !== "string" || !r.blobId || typeof r.sha256 !== "string" || !/^[0-9a-f]{64}$/.test(r.sha256)) {
+    throw new Error("Receipt is missing the blob id or hash");
+  }
+  // Form ids are 32 hex characters; submittedAt is an ISO timestamp from the backend or toISOString()
+  if (
+    typeof r.formId !== "string" ||
+    !/^[0-9a-f]{32}$/.test(r.formId) ||
+    typeof r.submittedAt !== "string" ||
+    !/^\d{4}-\d{2}-\d{2}T[\d:.]+(Z|[+-]\d{2}:\d{2})$/.test(r.submittedAt) ||
+    Number.isNaN(Date.parse(r.submittedAt))
+  ) {
+    throw new Error("Receipt is missing the form id or submission time");
+  }
+  return r as Receipt;
+}
+
+// The aggregator named in the receipt is informational only. Verifying against
+// it would let a forged receipt point at a server that agrees with it.
+export async function verifyReceipt(receipt: Receipt, aggregator: string = AGGREGATOR_BASE): Promise<VerifyResult> {
+  const blob = await fetchBlob(receipt.blobId, aggregator);
+  if (!blob) return { found: false, hashMatches: false, actualSha256: null };
+
+  const actualSha256 = await sha256Hex(blob);
+  return { found: true, hashMatches: actualSha256 === receipt.sha256, actualSha256 };
+}
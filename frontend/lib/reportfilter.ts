@@ -0,0 +1,122 @@
+import { isAttachmentRef } from "./attachments";
+import { FOLLOWUP_FIELD } from "./followup";
+import { Field, FieldType, FormSchema, dateValue, formatAnswer, hasOptions, isDateType } from "./schema";
+
+// Search, filtering and sorting over decrypted reports in the admin inbox.
+// Runs only on answers already decrypted in this browser.
+
+export type ReportData = Record<string, unknown>;
+
+export type AnswerFilter =
+  | { kind: "choice"; value: string }
+  | { kind: "range"; min?: number; max?: number }
+  | { kind: "checked"; value: boolean };
+
+export type ReportFilter = {
+  query: string;
+  // by field id; a missing entry means "any answer"
+  answers: Record<string, AnswerFilter>;
+};
+
+export const EMPTY_REPORT_FILTER: ReportFilter = { query: "", answers: {} };
+
+export type SortDirection = "asc" | "desc";
+
+export function filterKind(type: FieldType): AnswerFilter["kind"] | null {
+  if (hasOptions(type)) return "choice";
+  if (type === "rating" || type === "number") return "range";
+  if (type === "checkbox") return "checked";
+  return null;
+}
+
+export function filterableFields(schema: FormSchema): Field[] {
+  return schema.fields.filter((f) => filterKind(f.type) !== null);
+}
+
+export function sortableFields(schema: FormSchema): Field[] {
+  return schema.fields.filter((f) => f.type !== "file");
+}
+
+export function activeFilterCount(filter: ReportFilter) {
+  return Object.keys(filter.answers).length + (filter.query.trim() ? 1 : 0);
+}
+
+function answerText(field: Field | undefined, v: unknown): string {
+  if (Array.isArray(v) && v.some(isAttachmentRef)) {
+    return v
+      .filter(isAttachmentRef)
+      .map((ref) => ref.name)
+      .join(" ");
+  }
+  if (field) return formatAnswer(field, v);
+  return Array.isArray(v) ? v.join(" ") : typeof v === "object" && v !== null ? "" : String(v ?? "");
+}
+
+// Every answer as lower-case text, including keys the schema does not know
+export function reportText(schema: FormSchema | null, data: ReportData): string {
+  return Object.entries(data)
+    .filter(([key]) => key !== FOLLOWUP_FIELD)
+    .map(([key, v]) => answerText(schema?.fields.find((f) => f.id === key), v))
+    .join("\n")
+    .toLowerCase();
+}
+
+// All whitespace separated terms must appear somewhere in the report
+export function matchesQuery(text: string, query: string) {
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .every((term) => text.includes(term));
+}
+
+function matchesAnswer(filter: AnswerFilter, v: unknown) {
+  switch (filter.kind) {
+    case "choice":
+      return Array.isArray(v) ? v.includes(filter.value) : v === filter.value;
+    case "range": {
+      if (v === undefined || v === null || v === "") return false;
+      const n = Number(v);
+      if (!Number.isFinite(n)) return false;
+      return (filter.min === undefined || n >= filter.min) && (filter.max === undefined || n <= filter.max);
+    }
+    case "checked":
+      return !!v === filter.value;
+  }
+}
+
+export function matchesReportFilter(schema: FormSchema | null, data: ReportData, filter: ReportFilter) {
+  for (const [fieldId, answerFilter] of Object.entries(filter.answers)) {
+    if (!matchesAnswer(answerFilter, data[fieldId])) return false;
+  }
+  return !filter.query.trim() || matchesQuery(reportText(schema, data), filter.query);
+}
+
+// Sort key for one answer; null for unanswered so those always go last
+function sortKey(field: Field, v: unknown): number | string | null {
+  if (v === undefined || v === null || v === "" || (Array.isArray(v) && v.length === 0)) {
+    return field.type === "checkbox" ? 0 : null;
+  }
+  if (isDateType(field.type)) return dateValue(v);
+  if (field.type === "number" || field.type === "rating") {
+    const n = Number(v);
+    return Number.isFinite(n) ? n : null;
+  }
+  if (field.type === "checkbox") return v ? 1 : 0;
+  return formatAnswer(field, v).toLowerCase();
+}
+
+export function compareAnswers(field: Field, a: unknown, b: unknown, dir: SortDirection) {
+  const ka = sortKey(field, a);
+  const kb = sortKey(field, b);
+  if (ka === null || kb === null) return ka === null ? (kb === null ? 0 : 1) : -1;
+  const order = typeof ka === "number" && typeof kb === "number" ? ka - kb : String(ka).localeCompare(String(kb));
+  return dir === "asc" ? order : -order;
+}
+
+export function sortLabels(field: Field): Record<SortDirection, string> {
+  if (isDateType(field.type)) return { desc: "newest first", asc: "oldest first" };
+  if (field.type === "number" || field.type === "rating") return { desc: "highest first", asc: "lowest first" };
+  if (field.type === "checkbox") return { desc: "checked first", asc: "unchecked first" };
+  return { asc: "A to Z", desc: "Z to A" };
+}
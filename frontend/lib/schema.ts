@@ -0,0 +1,550 @@
+import { DEFAULT_MAX_FILE_MB, checkFile } from "./attachments";
+import { FormBranding, isHexColor, isLogoDataUrl } from "./branding";
+import { CONDITION_OPERATORS, Condition, isRequired, normalizeConditions, visibleFieldIds } from "./conditions";
+import { ThresholdPolicy, checkThresholdPolicy } from "./keyshares";
+import { formatLocation, hasPosition, isLocationAnswer } from "./location";
+import { FormSection, orderBySection } from "./sections";
+
+// Form schema shared by the builder, the submit page and the admin inbox.
+//
+// parseFormSchema() checks anything that claims to be a schema (a builder
+// draft, a `/form/{formId}` response) before a page relies on it, and
+// validateAnswers() is the single place answers are checked against it.
+// Stored forms are repaired first where older builders let a mistake through;
+// the builder itself gets the strict check.
+
+export const FIELD_TYPES = [
+  "text",
+  "textarea",
+  "number",
+  "select",
+  "multi-select",
+  "rating",
+  "checkbox",
+  "file",
+  "date",
+  "datetime",
+  "email",
+  "url",
+  "radio",
+  "location",
+] as const;
+
+export type FieldType = (typeof FIELD_TYPES)[number];
+
+export type Field = {
+  id: string;
+  label: string;
+  type: FieldType;
+  required?: boolean;
+  options?: string[];
+  min?: number;
+  max?: number;
+  helpText?: string;
+  // file fields only
+  maxSizeMb?: number;
+  accept?: string[];
+  // date and datetime fields, in the same format as the answer
+  earliest?: string;
+  latest?: string;
+  notFuture?: boolean;
+  // email fields: only addresses at these domains (or their subdomains)
+  domains?: string[];
+  // url fields
+  httpsOnly?: boolean;
+  // location fields: offer an approximate position from the browser
+  allowPosition?: boolean;
+  // text-like fields; pattern must match the whole answer
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  // multi-select fields
+  maxSelections?: number;
+  // replaces the built-in message when that rule fails
+  messages?: Partial<Record<ValidationRule, string>>;
+  // only asked / only required when every condition on earlier answers holds
+  showIf?: Condition[];
+  requiredIf?: Condition[];
+  // id of the page this question is on
+  section?: string;
+};
+
+export type FormSchema = {
+  // reporter page heading, markdown intro and markdown shown after sending
+  title?: string;
+  intro?: string;
+  thankYou?: string;
+  branding?: FormBranding;
+  fields: Field[];
+  sections?: FormSection[];
+  // k-of-n key custody; absent for forms with a single owner key
+  threshold?: ThresholdPolicy;
+};
+
+export type FormDetails = Pick<FormSchema, "title" | "intro" | "thankYou" | "branding">;
+
+export const MAX_TITLE_LENGTH = 120;
+export const MAX_TEXT_LENGTH = 5000;
+// A rating is one button per point, 0 to 10 at the widest
+export const MAX_RATING_POINTS = 11;
+
+export const VALIDATION_RULES = ["required", "format", "range", "length", "pattern", "selections"] as const;
+
+export type ValidationRule = (typeof VALIDATION_RULES)[number];
+
+export type AnswerError = {
+  fieldId: string;
+  message: string;
+};
+
+export function hasOptions(type: FieldType) {
+  return type === "select" || type === "multi-select" || type === "radio";
+}
+
+export function hasLength(type: FieldType) {
+  return type === "text" || type === "textarea" || type === "email" || type === "url";
+}
+
+export function fullMatch(pattern: string) {
+  return new RegExp(`^(?:${pattern})$`);
+}
+
+// Rules that can fail for a field type, for the builder's custom messages
+export function rulesFor(type: FieldType): ValidationRule[] {
+  return VALIDATION_RULES.filter((rule) => {
+    if (rule === "range") return isNumeric(type) || isDateType(type);
+    if (rule === "length" || rule === "pattern") return hasLength(type);
+    if (rule === "selections") return type === "multi-select";
+    if (rule === "format") return type !== "text" && type !== "textarea" && type !== "checkbox" && type !== "location";
+    return true;
+  });
+}
+
+export function isDateType(type: FieldType) {
+  return type === "date" || type === "datetime";
+}
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const DATETIME_RE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2})?$/;
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Milliseconds for a date or datetime-local string, read in local time
+export function dateValue(v: unknown): number | null {
+  if (typeof v !== "string" || !(DATE_RE.test(v) || DATETIME_RE.test(v))) return null;
+  const t = Date.parse(DATE_RE.test(v) ? `${v}T00:00` : v);
+  return Number.isNaN(t) ? null : t;
+}
+
+export function isNumeric(type: FieldType) {
+  return type === "number" || type === "rating";
+}
+
+export function slugFromLabel(label: string, index: number) {
+  const base = label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+  return base || `field_${index + 1}`;
+}
+
+// --- Schema validation ---
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function isStringArray(v: unknown): v is string[] {
+  return Array.isArray(v) && v.every((x) => typeof x === "string");
+}
+
+function optional(v: unknown, check: (v: unknown) => boolean) {
+  return v === undefined || v === null || check(v);
+}
+
+const isString = (v: unknown) => typeof v === "string";
+const isNumber = (v: unknown) => typeof v === "number" && Number.isFinite(v);
+
+function checkConditions(raw: unknown, earlier: string[], where: string) {
+  if (raw === undefined || raw === null) return;
+  if (!Array.isArray(raw)) throw new Error(`${where} must be a list of conditions`);
+  for (const c of raw) {
+    if (!isObject(c) || typeof c.field !== "string" || !(String(c.op) in CONDITION_OPERATORS)) {
+      throw new Error(`${where} has a malformed condition`);
+    }
+    if (!earlier.includes(c.field)) {
+      throw new Error(`${where} depends on "${c.field}", which is not an earlier question`);
+    }
+    if (!optional(c.value, isString)) throw new Error(`${where} has a non-text condition value`);
+  }
+}
+
+function checkField(f: unknown, index: number, earlier: string[], sectionIds: string[]) {
+  if (!isObject(f)) throw new Error(`Question ${index + 1} is not an object`);
+  const where = typeof f.label === "string" && f.label ? `Question "${f.label}"` : `Question ${index + 1}`;
+
+  if (typeof f.id !== "string" || !f.id.trim()) throw new Error(`${where} has no id`);
+  if (earlier.includes(f.id)) throw new Error(`${where} reuses the id "${f.id}"`);
+  if (typeof f.label !== "string") throw new Error(`${where} has no label`);
+  if (!FIELD_TYPES.includes(f.type as FieldType)) throw new Error(`${where} has unknown type "${String(f.type)}"`);
+
+  if (!optional(f.required, (v) => typeof v === "boolean"))
+    throw new Error(`${where}: "required" must be true or false`);
+  if (!optional(f.helpText, isString)) throw new Error(`${where}: help text must be text`);
+  if (!optional(f.options, isStringArray)) throw new Error(`${where}: options must be a list of text`);
+  if (!optional(f.min, isNumber) || !optional(f.max, isNumber))
+    throw new Error(`${where}: min and max must be numbers`);
+  if (isNumber(f.min) && isNumber(f.max) && (f.min as number) > (f.max as number)) {
+    throw new Error(`${where}: min is larger than max`);
+  }
+  if (f.type === "rating") {
+    const lo = isNumber(f.min) ? (f.min as number) : 1;
+    const hi = isNumber(f.max) ? (f.max as number) : 5;
+    if (!Number.isInteger(lo) || !Number.isInteger(hi)) {
+      throw new Error(`${where}: rating bounds must be whole numbers`);
+    }
+    if (lo > hi || hi - lo >= MAX_RATING_POINTS) {
+      throw new Error(`${where}: a rating scale must have 1 to ${MAX_RATING_POINTS} points`);
+    }
+  }
+  if (!optional(f.maxSizeMb, (v) => isNumber(v) && (v as number) > 0)) {
+    throw new Error(`${where}: max file size must be a positive number`);
+  }
+  if (!optional(f.accept, isStringArray)) throw new Error(`${where}: allowed file types must be a list of text`);
+  if (!optional(f.earliest, (v) => dateValue(v) !== null) || !optional(f.latest, (v) => dateValue(v) !== null)) {
+    throw new Error(`${where}: earliest and latest must be dates`);
+  }
+  if (!optional(f.domains, isStringArray)) throw new Error(`${where}: email domains must be a list of text`);
+  const isCount = (v: unknown) => Number.isInteger(v) && (v as number) >= 0;
+  if (!optional(f.minLength, isCount) || !optional(f.maxLength, isCount) || !optional(f.maxSelections, isCount)) {
+    throw new Error(`${where}: length and selection limits must be whole numbers`);
+  }
+  if (isCount(f.minLength) && isCount(f.maxLength) && (f.minLength as number) > (f.maxLength as number)) {
+    throw new Error(`${where}: minimum length is larger than maximum length`);
+  }
+  if (!optional(f.pattern, isString)) throw new Error(`${where}: pattern must be text`);
+  if (typeof f.pattern === "string") {
+    try {
+      fullMatch(f.pattern);
+    } catch {
+      throw new Error(`${where}: pattern is not a valid regular expression`);
+    }
+  }
+  if (!optional(f.messages, (m) => isObject(m) && Object.values(m).every(isString))) {
+    throw new Error(`${where}: custom messages must be text`);
+  }
+
+  checkConditions(f.showIf, earlier, `${where} show-if rule`);
+  checkConditions(f.requiredIf, earlier, `${where} required-if rule`);
+
+  if (!optional(f.section, isString)) throw new Error(`${where}: page must be a page id`);
+  if (typeof f.section === "string" && sectionIds.length && !sectionIds.includes(f.section)) {
+    throw new Error(`${where} is on an unknown page "${f.section}"`);
+  }
+}
+
+// The first builder gave questions with the same label the same id and never
+// compared min with max. Later duplicates get a numbered id and swapped bounds
+// are put back in order, so such forms still open.
+function repairStoredSchema(raw: unknown): unknown {
+  if (!isObject(raw) || !Array.isArray(raw.fields)) return raw;
+
+  const used = new Set<string>();
+  const fields = raw.fields.map((f: unknown) => {
+    if (!isObject(f)) return f;
+    let repaired = f;
+    if (typeof f.id === "string" && used.has(f.id)) {
+      let n = 2;
+      while (used.has(`${f.id}_${n}`)) n++;
+      repaired = { ...repaired, id: `${f.id}_${n}` };
+    }
+    if (typeof repaired.id === "string") used.add(repaired.id);
+    if (isNumber(f.min) && isNumber(f.max) && (f.min as number) > (f.max as number)) {
+      repaired = { ...repaired, min: f.max, max: f.min };
+    }
+    return repaired;
+  });
+  return { ...raw, fields };
+}
+
+export function parseFormSchema(raw: unknown): FormSchema {
+  return checkFormSchema(repairStoredSchema(raw));
+}
+
+function checkFormSchema(raw: unknown): FormSchema {
+  if (!isObject(raw)) throw new Error("Form schema is missing");
+  if (!Array.isArray(raw.fields) || raw.fields.length === 0) {
+    throw new Error("Form schema has no questions");
+  }
+
+  if (!optional(raw.title, isString) || String(raw.title ?? "").length > MAX_TITLE_LENGTH) {
+    throw new Error(`Form title must be text of at most ${MAX_TITLE_LENGTH} characters`);
+  }
+  for (const [key, name] of [
+    ["intro", "Form intro"],
+    ["thankYou", "Thank-you message"],
+  ] as const) {
+    if (!optional(raw[key], isString) || String(raw[key] ?? "").length > MAX_TEXT_LENGTH) {
+      throw new Error(`${name} must be text of at most ${MAX_TEXT_LENGTH} characters`);
+    }
+  }
+  if (raw.branding !== undefined && raw.branding !== null) {
+    const b = raw.branding;
+    if (!isObject(b)) throw new Error("Form branding is malformed");
+    if (!optional(b.accent, isHexColor)) throw new Error("Accent colour must look like #1a2b3c");
+    if (!optional(b.logo, isLogoDataUrl)) throw new Error("Logo must be a small embedded PNG, JPEG or WebP image");
+  }
+
+  const sectionIds: string[] = [];
+  if (raw.sections !== undefined && raw.sections !== null) {
+    if (!Array.isArray(raw.sections)) throw new Error("Form pages must be a list");
+    for (const [index, s] of raw.sections.entries()) {
+      if (
+        !isObject(s) ||
+        typeof s.id !== "string" ||
+        typeof s.title !== "string" ||
+        !optional(s.description, isString)
+      ) {
+        throw new Error(`Page ${index + 1} is malformed`);
+      }
+      if (sectionIds.includes(s.id)) throw new Error(`Page id "${s.id}" is used twice`);
+      sectionIds.push(s.id);
+    }
+  }
+
+  const ids: string[] = [];
+  raw.fields.forEach((f, index) => {
+    checkField(f, index, ids, sectionIds);
+    ids.push((f as Field).id);
+  });
+
+  if (raw.threshold !== undefined && raw.threshold !== null) {
+    const t = raw.threshold as ThresholdPolicy;
+    const problem = isObject(t) ? checkThresholdPolicy(t) : "Key custody policy is malformed";
+    if (problem) throw new Error(problem);
+  }
+
+  return raw as FormSchema;
+}
+
+function cleanMessages(f: Field): Field["messages"] {
+  const rules = rulesFor(f.type);
+  const kept = Object.entries(f.messages || {})
+    .map(([rule, text]) => [rule, text?.trim()] as const)
+    .filter(([rule, text]) => text && rules.includes(rule as ValidationRule));
+  return kept.length ? Object.fromEntries(kept) : undefined;
+}
+
+// Builder output: trims and fills defaults, orders questions by page and
+// drops settings that do not apply to a question's type, then validates the
+// result. A show-if or required-if rule on a question that is not above it
+// fails validation rather than being dropped.
+export function normalizeFormSchema(draft: FormSchema): FormSchema {
+  const sections = (draft.sections || []).map((sec, index) => ({
+    id: sec.id,
+    title: sec.title.trim() || `Page ${index + 1}`,
+    description: sec.description?.trim() || undefined,
+  }));
+
+  const ordered = orderBySection(draft.fields, sections);
+  const ids = ordered.map((f, index) => (f.id && f.id.trim() ? f.id.trim() : slugFromLabel(f.label, index)));
+  const renamed = Object.fromEntries(ordered.map((f, index) => [f.id, ids[index]]));
+
+  const fields: Field[] = ordered.map((f, index) => {
+    const file = f.type === "file";
+    return {
+      ...f,
+      id: ids[index],
+      label: f.label.trim(),
+      options: hasOptions(f.type) ? (f.options || []).map((o) => o.trim()).filter(Boolean) : undefined,
+      min: typeof f.min === "number" ? f.min : undefined,
+      max: typeof f.max === "number" ? f.max : undefined,
+      maxSizeMb: file
+        ? typeof f.maxSizeMb === "number" && f.maxSizeMb > 0
+          ? f.maxSizeMb
+          : DEFAULT_MAX_FILE_MB
+        : undefined,
+      accept: file ? (f.accept || []).map((a) => a.trim().toLowerCase()).filter(Boolean) : undefined,
+      earliest: isDateType(f.type) && dateValue(f.earliest) !== null ? f.earliest : undefined,
+      latest: isDateType(f.type) && dateValue(f.latest) !== null ? f.latest : undefined,
+      notFuture: isDateType(f.type) && f.notFuture ? true : undefined,
+      domains:
+        f.type === "email"
+          ? (f.domains || []).map((d) => d.trim().toLowerCase().replace(/^@/, "")).filter(Boolean)
+          : undefined,
+      httpsOnly: f.type === "url" && f.httpsOnly ? true : undefined,
+      allowPosition: f.type === "location" && f.allowPosition ? true : undefined,
+      minLength: hasLength(f.type) && typeof f.minLength === "number" ? f.minLength : undefined,
+      maxLength: hasLength(f.type) && typeof f.maxLength === "number" ? f.maxLength : undefined,
+      pattern: hasLength(f.type) && f.pattern?.trim() ? f.pattern.trim() : undefined,
+      maxSelections: f.type === "multi-select" && typeof f.maxSelections === "number" ? f.maxSelections : undefined,
+      messages: cleanMessages(f),
+      showIf: normalizeConditions(f.showIf, renamed),
+      requiredIf: f.required ? undefined : normalizeConditions(f.requiredIf, renamed),
+      section: sections.some((s) => s.id === f.section) ? f.section : sections[0]?.id,
+    };
+  });
+
+  const empty = fields.find((f) => hasOptions(f.type) && !f.options?.length);
+  if (empty) throw new Error(`Question "${empty.label}" needs at least one option`);
+
+  const accent = draft.branding?.accent;
+  const logo = draft.branding?.logo;
+  return checkFormSchema({
+    title: draft.title?.trim() || undefined,
+    intro: draft.intro?.trim() || undefined,
+    thankYou: draft.thankYou?.trim() || undefined,
+    branding: accent || logo ? { accent: accent || undefined, logo: logo || undefined } : undefined,
+    fields,
+    sections: sections.length ? sections : undefined,
+    threshold: draft.threshold,
+  });
+}
+
+// --- Answers ---
+
+// Questions the reporter currently sees, in form order
+export function visibleFields(schema: FormSchema, values: Record<string, unknown>): Field[] {
+  const visible = visibleFieldIds(schema.fields, values);
+  return schema.fields.filter((field) => visible.has(field.id));
+}
+
+function isBlank(v: unknown) {
+  return v === undefined || v === null || String(v).trim() === "";
+}
+
+type Problem = { rule: ValidationRule; message: string };
+
+function findProblem(field: Field, schema: FormSchema, values: Record<string, unknown>): Problem | null {
+  const v = values[field.id];
+  const fail = (rule: ValidationRule, message: string): Problem => ({ rule, message });
+
+  if (isRequired(field, schema.fields, values)) {
+    if (field.type === "checkbox") {
+      if (!v) return fail("required", `Please confirm: ${field.label}`);
+    } else if (field.type === "location") {
+      if (!isLocationAnswer(v) || (!v.place.trim() && !hasPosition(v))) {
+        return fail("required", `Please fill: ${field.label}`);
+      }
+    } else if (field.type === "file" || field.type === "multi-select") {
+      if (!Array.isArray(v) || v.length === 0) {
+        return fail(
+          "required",
+          field.type === "file" ? `Please attach: ${field.label}` : `Please choose: ${field.label}`
+        );
+      }
+    } else if (isBlank(v)) {
+      return fail("required", `Please fill: ${field.label}`);
+    }
+  }
+
+  if (field.type === "file" && Array.isArray(v)) {
+    for (const file of v as File[]) {
+      const problem = checkFile(file, field);
+      if (problem) return fail("format", problem);
+    }
+  }
+
+  if (isNumeric(field.type) && !isBlank(v)) {
+    const num = Number(v);
+    if (Number.isNaN(num)) return fail("format", `Field "${field.label}" must be a number.`);
+    if (typeof field.min === "number" && num < field.min) {
+      return fail("range", `Field "${field.label}" must be at least ${field.min}.`);
+    }
+    if (typeof field.max === "number" && num > field.max) {
+      return fail("range", `Field "${field.label}" must be at most ${field.max}.`);
+    }
+  }
+
+  if (isDateType(field.type) && !isBlank(v)) {
+    const t = dateValue(v);
+    const ok = field.type === "date" ? DATE_RE.test(String(v)) : DATETIME_RE.test(String(v));
+    if (t === null || !ok) {
+      return fail(
+        "format",
+        `Field "${field.label}" must be a valid ${field.type === "date" ? "date" : "date and time"}.`
+      );
+    }
+    const earliest = dateValue(field.earliest);
+    const latest = dateValue(field.latest);
+    if (earliest !== null && t < earliest)
+      return fail("range", `Field "${field.label}" cannot be before ${field.earliest}.`);
+    if (latest !== null && t > latest) return fail("range", `Field "${field.label}" cannot be after ${field.latest}.`);
+    if (field.notFuture && t > Date.now()) return fail("range", `Field "${field.label}" cannot be in the future.`);
+  }
+
+  if (field.type === "email" && !isBlank(v)) {
+    const email = String(v).trim().toLowerCase();
+    if (!EMAIL_RE.test(email)) return fail("format", `Field "${field.label}" must be an email address.`);
+    const domain = email.split("@")[1];
+    if (field.domains?.length && !field.domains.some((d) => domain === d || domain.endsWith(`.${d}`))) {
+      return fail("format", `Field "${field.label}" must be an address at ${field.domains.join(" or ")}.`);
+    }
+  }
+
+  if (field.type === "url" && !isBlank(v)) {
+    let url: URL | null = null;
+    try {
+      url = new URL(String(v).trim());
+    } catch {
+      // reported below
+    }
+    if (!url || (url.protocol !== "https:" && (field.httpsOnly || url.protocol !== "http:"))) {
+      return fail("format", `Field "${field.label}" must be a${field.httpsOnly ? "n https" : ""} web address.`);
+    }
+  }
+
+  if (hasLength(field.type) && !isBlank(v)) {
+    const length = String(v).trim().length;
+    if (typeof field.minLength === "number" && length < field.minLength) {
+      return fail("length", `Field "${field.label}" needs at least ${field.minLength} characters.`);
+    }
+    if (typeof field.maxLength === "number" && length > field.maxLength) {
+      return fail("length", `Field "${field.label}" can have at most ${field.maxLength} characters.`);
+    }
+    if (field.pattern && !fullMatch(field.pattern).test(String(v).trim())) {
+      return fail("pattern", `Field "${field.label}" is not in the expected format.`);
+    }
+  }
+
+  if (hasOptions(field.type) && !isBlank(v)) {
+    const picked = Array.isArray(v) ? v : [v];
+    if (picked.some((p) => !field.options?.includes(String(p)))) {
+      return fail("format", `Field "${field.label}" has an unknown choice.`);
+    }
+    if (typeof field.maxSelections === "number" && picked.length > field.maxSelections) {
+      return fail("selections", `Field "${field.label}" allows at most ${field.maxSelections} choices.`);
+    }
+  }
+
+  return null;
+}
+
+// Error for one answer, using the field's own message for the failed rule if it has one
+export function checkAnswer(field: Field, schema: FormSchema, values: Record<string, unknown>): string | null {
+  const problem = findProblem(field, schema, values);
+  if (!problem) return null;
+  return field.messages?.[problem.rule]?.trim() || problem.message;
+}
+
+// Checks `fields` (by default every visible question) and returns one error per failing field
+export function validateAnswers(
+  schema: FormSchema,
+  values: Record<string, unknown>,
+  fields: Field[] = visibleFields(schema, values)
+): AnswerError[] {
+  const errors: AnswerError[] = [];
+  for (const field of fields) {
+    const message = checkAnswer(field, schema, values);
+    if (message) errors.push({ fieldId: field.id, message });
+  }
+  return errors;
+}
+
+// Plain text rendering of an answer for review screens and the inbox
+export function formatAnswer(field: Field, v: unknown): string {
+  if (field.type === "checkbox") return v ? "Yes" : "No";
+  if (field.type === "location" && isLocationAnswer(v)) return formatLocation(v) || "Not provided";
+  if (field.type === "datetime" && dateValue(v) !== null) return new Date(dateValue(v) as number).toLocaleString();
+  if (v === undefined || v === null || v === "" || (Array.isArray(v) && v.length === 0)) return "Not provided";
+  return Array.isArray(v) ? v.join(", ") : String(v);
+}
@@ -0,0 +1,40 @@
+// Pages of a multi-step form. Fields point at their section by id; a field
+// without a (known) section belongs to the first one. Forms without sections
+// are a single step.
+
+export type FormSection = {
+  id: string;
+  title: string;
+  description?: string;
+};
+
+export type FormStep<F> = {
+  section: FormSection | null;
+  fields: F[];
+};
+
+type SectionedField = { section?: string };
+
+function sectionIndex(field: SectionedField, sections: FormSection[]) {
+  const index = sections.findIndex((s) => s.id === field.section);
+  return index === -1 ? 0 : index;
+}
+
+export function formSteps<F extends SectionedField>(fields: F[], sections?: FormSection[]): FormStep<F>[] {
+  if (!sections?.length) return [{ section: null, fields }];
+  return sections
+    .map((section, index) => ({
+      section,
+      fields: fields.filter((f) => sectionIndex(f, sections) === index),
+    }))
+    .filter((step) => step.fields.length > 0);
+}
+
+// Stable sort so field order matches page order; conditions only look back
+export function orderBySection<F extends SectionedField>(fields: F[], sections?: FormSection[]): F[] {
+  if (!sections?.length) return fields;
+  return fields
+    .map((field, index) => ({ field, index, page: sectionIndex(field, sections) }))
+    .sort((a, b) => a.page - b.page || a.index - b.index)
+    .map(({ field }) => field);
+}
@@ -0,0 +1,83 @@
+// Shamir secret sharing over GF(256), byte by byte.
+//
+// Each byte of the secret is the constant term of a random polynomial of
+// degree k-1; share x holds the polynomial evaluated at x. Any k shares
+// recover the secret by Lagrange interpolation at 0, fewer reveal nothing.
+
+export type Share = {
+  x: number; // 1..255
+  y: Uint8Array;
+};
+
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+
+// Log tables for the AES field (x^8 + x^4 + x^3 + x + 1) with generator 3
+(() => {
+  let v = 1;
+  for (let i = 0; i < 255; i++) {
+    EXP[i] = v;
+    LOG[v] = i;
+    const xtime = ((v << 1) ^ (v & 0x80 ? 0x11b : 0)) & 0xff;
+    v ^= xtime;
+  }
+  for (let i = 255; i < 510; i++) EXP[i] = EXP[i - 255];
+})();
+
+function mul(a: number, b: number) {
+  return a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]];
+}
+
+function div(a: number, b: number) {
+  if (b === 0) throw new Error("Division by zero");
+  return a === 0 ? 0 : EXP[LOG[a] + 255 - LOG[b]];
+}
+
+export function splitSecret(secret: Uint8Array, n: number, k: number): Share[] {
+  if (!Number.isInteger(n) || !Number.isInteger(k) || k < 2 || n < k || n > 255) {
+    throw new Error("Need 2 <= k <= n <= 255");
+  }
+
+  const shares: Share[] = [];
+  for (let x = 1; x <= n; x++) shares.push({ x, y: new Uint8Array(secret.length) });
+
+  const coeffs = new Uint8Array(k);
+  for (let i = 0; i < secret.length; i++) {
+    coeffs[0] = secret[i];
+    window.crypto.getRandomValues(coeffs.subarray(1));
+    for (const share of shares) {
+      // Horner evaluation at share.x
+      let y = 0;
+      for (let c = k - 1; c >= 0; c--) y = mul(y, share.x) ^ coeffs[c];
+      share.y[i] = y;
+    }
+  }
+  coeffs.fill(0);
+  return shares;
+}
+
+export function combineShares(shares: Share[]): Uint8Array {
+  if (shares.length === 0) throw new Error("No shares");
+  const length = shares[0].y.length;
+  if (shares.some((s) => s.y.length !== length)) throw new Error("Shares have different lengths");
+  if (new Set(shares.map((s) => s.x)).size !== shares.length) throw new Error("Duplicate shares");
+
+  // Lagrange basis polynomials evaluated at 0
+  const weights = shares.map((si, i) => {
+    let w = 1;
+    shares.forEach((sj, j) => {
+      if (i !== j) w = mul(w, div(sj.x, sj.x ^ si.x));
+    });
+    return w;
+  });
+
+  const secret = new Uint8Array(length);
+  for (let b = 0; b < length; b++) {
+    let v = 0;
+    shares.forEach((s, i) => {
+      v ^= mul(s.y[b], weights[i]);
+    });
+    secret[b] = v;
+  }
+  return secret;
+}
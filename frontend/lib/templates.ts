@@ -0,0 +1,116 @@
+import { STORES, idbDelete, idbGetAll, idbPut } from "./idb";
+import { ThresholdPolicy, checkThresholdPolicy } from "./keyshares";
+import { FormSchema, parseFormSchema } from "./schema";
+
+// Portable form definitions and the local template library.
+//
+// A definition holds what is needed to rebuild a form in the builder: the
+// questions and pages, a title and description and the key custody setting.
+// It never carries keys or recipients, so the same file can be handed to
+// another department. Saved custom templates are definitions kept in
+// IndexedDB on this device.
+
+export const FORM_DEFINITION_FORMAT = "cipherwhisp-form";
+
+export type FormSettings = {
+  custody: "single" | "threshold";
+  threshold?: ThresholdPolicy;
+};
+
+export type FormDefinition = {
+  format: typeof FORM_DEFINITION_FORMAT;
+  version: 1;
+  title: string;
+  description: string;
+  exportedAt: string;
+  schema: FormSchema;
+  settings: FormSettings;
+};
+
+export type SavedTemplate = {
+  id: string;
+  savedAt: string;
+  definition: FormDefinition;
+};
+
+export function createFormDefinition(
+  title: string,
+  description: string,
+  schema: FormSchema,
+  settings: FormSettings
+): FormDefinition {
+  if (!title.trim()) throw new Error("Give the form a name first");
+  return {
+    format: FORM_DEFINITION_FORMAT,
+    version: 1,
+    title: title.trim(),
+    description: description.trim(),
+    exportedAt: new Date().toISOString(),
+    // custody lives in settings; a definition is never tied to existing keys
+    schema: { ...schema, threshold: undefined },
+    settings:
+      settings.custody === "threshold"
+        ? { custody: "threshold", threshold: settings.threshold }
+        : { custody: "single" },
+  };
+}
+
+export function parseFormDefinition(text: string): FormDefinition {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("Form definition is not valid JSON");
+  }
+
+  const d = raw as Partial<FormDefinition> | null;
+  if (!d || d.format !== FORM_DEFINITION_FORMAT) {
+    throw new Error("Not a CipherWhisp form definition");
+  }
+  if (d.version !== 1) {
+    throw new Error(`Unsupported form definition version ${String(d.version)}`);
+  }
+  if (typeof d.title !== "string" || typeof d.description !== "string" || typeof d.exportedAt !== "string") {
+    throw new Error("Form definition is incomplete");
+  }
+
+  const schema = parseFormSchema(d.schema);
+  if (schema.threshold) throw new Error("Key custody belongs in the definition settings, not the schema");
+
+  const s = d.settings;
+  if (!s || (s.custody !== "single" && s.custody !== "threshold")) {
+    throw new Error("Form definition settings are malformed");
+  }
+  if (s.custody === "threshold") {
+    const problem = s.threshold ? checkThresholdPolicy(s.threshold) : "Threshold custody needs a k-of-n policy";
+    if (problem) throw new Error(problem);
+  }
+  return d as FormDefinition;
+}
+
+export function definitionFileName(def: FormDefinition) {
+  const slug = def.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return `${slug || "form"}.cipherwhisp-form.json`;
+}
+
+export function templateLibrarySupported() {
+  return typeof window !== "undefined" && "indexedDB" in window;
+}
+
+export async function listTemplates(): Promise<SavedTemplate[]> {
+  const saved = await idbGetAll<SavedTemplate>(STORES.templates);
+  return saved.sort((a, b) => a.definition.title.localeCompare(b.definition.title));
+}
+
+export async function saveTemplate(definition: FormDefinition): Promise<SavedTemplate> {
+  const template: SavedTemplate = { id: window.crypto.randomUUID(), savedAt: new Date().toISOString(), definition };
+  await idbPut(STORES.templates, template);
+  return template;
+}
+
+export function deleteTemplate(id: string): Promise<void> {
+  return idbDelete(STORES.templates, id);
+}
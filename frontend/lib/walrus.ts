@@ -0,0 +1,11 @@
+// Direct, read-only access to a Walrus aggregator from the browser. Used where
+// going through our backend would defeat the point (receipt verification).
+
+export const AGGREGATOR_BASE = "https://aggregator.walrus-testnet.walrus.space";
+
+export async function fetchBlob(blobId: string, aggregator: string = AGGREGATOR_BASE): Promise<ArrayBuffer | null> {
+  const res = await fetch(`${aggregator.replace(/\/+$/, "")}/v1/blobs/${encodeURIComponent(blobId)}`);
+  if (res.status === 404) return null;
+  if (!res.ok) throw new Error(`Aggregator error ${res.status}`);
+  return res.arrayBuffer();
+}